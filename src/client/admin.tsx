@@ -0,0 +1,268 @@
+// src/client/admin.tsx
+import { createRoot } from "react-dom/client";
+import React, { useEffect, useState } from "react";
+import {
+  ApiError,
+  GAME_MODES,
+  apiAdminMetrics,
+  apiAdminPuzzles,
+  type AdminDayMetrics,
+  type AdminMetricsResponse,
+  type AdminPuzzlesResponse,
+  type GameMode,
+} from "../shared/api";
+
+type Loaded = {
+  mode: GameMode;
+  metrics: AdminMetricsResponse | null;
+  puzzles: AdminPuzzlesResponse | null;
+  error: string | null;
+};
+
+function pct(n: number) {
+  return `${n}%`;
+}
+
+function SummaryCell({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div style={styles.summaryCell}>
+      <div style={styles.summaryValue}>{value}</div>
+      <div style={styles.summaryLabel}>{label}</div>
+    </div>
+  );
+}
+
+function Summary({ total }: { total: Omit<AdminDayMetrics, "dateKey"> }) {
+  return (
+    <div style={styles.summaryGrid}>
+      <SummaryCell label="Players" value={total.players} />
+      <SummaryCell label="Finished" value={total.finished} />
+      <SummaryCell label="Solved" value={pct(total.solveRate)} />
+      <SummaryCell label="Clue 1" value={pct(total.stageSolveRates[1])} />
+      <SummaryCell label="Clue 2" value={pct(total.stageSolveRates[2])} />
+      <SummaryCell label="Clue 3" value={pct(total.stageSolveRates[3])} />
+      <SummaryCell label="Gave up" value={pct(total.giveUpRate)} />
+      <SummaryCell label="Avg score" value={total.averageScore} />
+    </div>
+  );
+}
+
+function AdminApp() {
+  const [mode, setMode] = useState<GameMode>(() => {
+    const saved = localStorage.getItem("nts:mode");
+    return GAME_MODES.find((m) => m === saved) ?? "medium";
+  });
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([apiAdminMetrics(mode), apiAdminPuzzles(mode)])
+      .then(([metrics, puzzles]) => {
+        if (!cancelled) setLoaded({ mode, metrics, puzzles, error: null });
+      })
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        const message =
+          e instanceof ApiError && e.code === "FORBIDDEN" ? "Moderators only." : "Couldn't load the dashboard.";
+        setLoaded({ mode, metrics: null, puzzles: null, error: message });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode]);
+
+  // stale data from the previous mode counts as still loading
+  const current = loaded?.mode === mode ? loaded : null;
+  const puzzleByDate = new Map((current?.puzzles?.puzzles ?? []).map((p) => [p.dateKey, p]));
+
+  return (
+    <div style={styles.page}>
+      <div style={styles.wrap}>
+        <div style={styles.headerRow}>
+          <h1 style={styles.h1}>Mod dashboard</h1>
+          <a href="./game.html" style={styles.backLink}>
+            ← Back to game
+          </a>
+        </div>
+
+        <div style={styles.modeRow}>
+          {GAME_MODES.map((m) => (
+            <button key={m} onClick={() => setMode(m)} style={m === mode ? styles.modePillActive : styles.modePill}>
+              {m.toUpperCase()}
+            </button>
+          ))}
+        </div>
+
+        {!current && <div style={styles.muted}>Loading…</div>}
+        {current?.error && <div style={styles.error}>{current.error}</div>}
+
+        {current?.metrics && (
+          <>
+            <div style={styles.sectionLabel}>Tomorrow and the last 30 days</div>
+            <Summary total={current.metrics.total} />
+
+            <div style={styles.sectionLabel}>By day (UTC)</div>
+            <div style={styles.tableWrap}>
+              <table style={styles.table}>
+                <thead>
+                  <tr>
+                    {["Day", "Answer", "Players", "Solved", "C1", "C2", "C3", "Gave up", "Avg"].map((h) => (
+                      <th key={h} style={styles.th}>
+                        {h}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {current.metrics.days.map((d) => {
+                    const p = puzzleByDate.get(d.dateKey);
+                    return (
+                      <tr key={d.dateKey}>
+                        <td style={styles.td}>{d.dateKey}</td>
+                        <td style={styles.td} title={p?.postTitle}>
+                          {p ? `r/${p.subreddit}${p.version ? ` (v${p.version})` : ""}` : "—"}
+                        </td>
+                        <td style={styles.td}>{d.players}</td>
+                        <td style={styles.td}>{d.finished ? pct(d.solveRate) : "—"}</td>
+                        <td style={styles.td}>{d.finished ? pct(d.stageSolveRates[1]) : "—"}</td>
+                        <td style={styles.td}>{d.finished ? pct(d.stageSolveRates[2]) : "—"}</td>
+                        <td style={styles.td}>{d.finished ? pct(d.stageSolveRates[3]) : "—"}</td>
+                        <td style={styles.td}>{d.finished ? pct(d.giveUpRate) : "—"}</td>
+                        <td style={styles.td}>{d.finished ? d.averageScore : "—"}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ----- Styles -----
+const styles: Record<string, React.CSSProperties> = {
+  page: {
+    minHeight: "100vh",
+    background: "linear-gradient(180deg, #0b0f1a 0%, #070a12 55%, #05070d 100%)",
+    color: "white",
+    fontFamily:
+      'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, "Apple Color Emoji","Segoe UI Emoji"',
+  },
+  wrap: {
+    maxWidth: 920,
+    margin: "0 auto",
+    padding: 16,
+    boxSizing: "border-box",
+  },
+  headerRow: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    marginBottom: 12,
+  },
+  h1: {
+    margin: 0,
+    fontSize: 22,
+    fontWeight: 900,
+  },
+  backLink: {
+    color: "rgba(255,255,255,0.8)",
+    fontSize: 13,
+    textDecoration: "none",
+  },
+  modeRow: {
+    display: "flex",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 14,
+  },
+  modePill: {
+    padding: "6px 12px",
+    borderRadius: 999,
+    border: "1px solid rgba(255,255,255,0.14)",
+    background: "rgba(255,255,255,0.06)",
+    color: "white",
+    fontWeight: 800,
+    fontSize: 12,
+    cursor: "pointer",
+  },
+  modePillActive: {
+    padding: "6px 12px",
+    borderRadius: 999,
+    border: "1px solid rgba(255,69,0,0.7)",
+    background: "rgba(255,69,0,0.25)",
+    color: "white",
+    fontWeight: 900,
+    fontSize: 12,
+    cursor: "pointer",
+  },
+  sectionLabel: {
+    fontSize: 12,
+    opacity: 0.75,
+    fontWeight: 800,
+    letterSpacing: 0.4,
+    textTransform: "uppercase",
+    margin: "14px 0 8px",
+  },
+  summaryGrid: {
+    display: "grid",
+    gridTemplateColumns: "repeat(auto-fill, minmax(100px, 1fr))",
+    gap: 8,
+  },
+  summaryCell: {
+    padding: "10px 12px",
+    borderRadius: 12,
+    background: "rgba(255,255,255,0.05)",
+    border: "1px solid rgba(255,255,255,0.10)",
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: 900,
+  },
+  summaryLabel: {
+    fontSize: 11,
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  tableWrap: {
+    overflowX: "auto",
+    borderRadius: 12,
+    border: "1px solid rgba(255,255,255,0.10)",
+  },
+  table: {
+    width: "100%",
+    borderCollapse: "collapse",
+    fontSize: 13,
+  },
+  th: {
+    textAlign: "left",
+    padding: "8px 10px",
+    background: "rgba(255,255,255,0.06)",
+    fontWeight: 800,
+    whiteSpace: "nowrap",
+  },
+  td: {
+    padding: "7px 10px",
+    borderTop: "1px solid rgba(255,255,255,0.06)",
+    whiteSpace: "nowrap",
+  },
+  muted: {
+    opacity: 0.7,
+    fontSize: 13,
+  },
+  error: {
+    padding: "10px 12px",
+    borderRadius: 12,
+    background: "rgba(255,69,0,0.15)",
+    border: "1px solid rgba(255,69,0,0.4)",
+    fontSize: 13,
+  },
+};
+
+const rootEl = document.getElementById("root");
+if (!rootEl) throw new Error("Missing #root element in admin.html");
+createRoot(rootEl).render(<AdminApp />);
@@ -2,13 +2,34 @@
 import { createRoot } from "react-dom/client";
 import React, { useEffect, useMemo, useState } from "react";
 import {
+  ApiError,
+  GAME_MODES,
+  apiGameInit,
   apiGetState,
   apiGuess,
-  apiLockMode,
+  apiReveal,
   apiGiveUp,
+  apiGetLeaderboard,
+  apiGetArchive,
+  apiGetStats,
+  apiSuggest,
+  apiShareResult,
+  type ArchiveResponse,
+  type DayHistory,
+  type DayResult,
+  type GetStatsResponse,
+  type GetLeaderboardResponse,
   type GetStateResponse,
+  type GameInitResponse,
   type GameMode,
+  type GuessVerdict,
+  type LeaderboardEntry,
+  type LeaderboardScope,
+  type ModeStatus,
+  type SuggestResponse,
 } from "../shared/api";
+import { splitRedacted } from "../shared/redaction";
+import { formatShareText } from "../shared/share";
 
 type Stage = 1 | 2 | 3;
 
@@ -19,6 +40,11 @@ function normalizeInput(v: string) {
   return s;
 }
 
+// Reddit's own naming rules; anything else can't be a real subreddit
+function isValidSubredditName(s: string) {
+  return /^[A-Za-z0-9][A-Za-z0-9_]{1,20}$/.test(s);
+}
+
 // Local YYYY-MM-DD (device timezone)
 function localDateKey(d = new Date()) {
   const y = d.getFullYear();
@@ -77,11 +103,450 @@ function Modal({
   );
 }
 
+async function copyToClipboard(text: string) {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    // some webviews block the async clipboard API; fall back to a hidden textarea
+    const ta = document.createElement("textarea");
+    ta.value = text;
+    ta.style.position = "fixed";
+    ta.style.opacity = "0";
+    document.body.appendChild(ta);
+    ta.select();
+    const ok = document.execCommand("copy");
+    document.body.removeChild(ta);
+    return ok;
+  }
+}
+
+function CopyResultButton({ text }: { text: string }) {
+  const [status, setStatus] = useState<"idle" | "copied" | "failed">("idle");
+
+  async function onCopy() {
+    setStatus((await copyToClipboard(text)) ? "copied" : "failed");
+  }
+
+  return (
+    <div style={{ marginTop: 10 }}>
+      <pre style={styles.sharePreview}>{text}</pre>
+      <button onClick={onCopy} style={styles.secondaryBtn}>
+        {status === "copied" ? "Copied ✓" : status === "failed" ? "Couldn't copy" : "📋 Copy result"}
+      </button>
+    </div>
+  );
+}
+
+function ShareToThreadButton({
+  mode,
+  dateKey,
+  alreadyShared,
+}: {
+  mode: GameMode;
+  dateKey: string;
+  alreadyShared: boolean;
+}) {
+  const [status, setStatus] = useState<"idle" | "confirming" | "posting" | "done" | "error">(
+    alreadyShared ? "done" : "idle"
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  async function onConfirm() {
+    setStatus("posting");
+    try {
+      await apiShareResult(mode, dateKey);
+      setStatus("done");
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Couldn't share.");
+      setStatus("error");
+    }
+  }
+
+  if (status === "done") {
+    return <div style={{ marginTop: 8, opacity: 0.8, fontSize: 13 }}>✅ Shared to the thread.</div>;
+  }
+
+  if (status === "confirming" || status === "posting") {
+    return (
+      <div style={{ marginTop: 8 }}>
+        <div style={{ fontSize: 13, opacity: 0.85, marginBottom: 8 }}>
+          Post this result as a comment from your account?
+        </div>
+        <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={onConfirm} disabled={status === "posting"} style={styles.primaryBtn}>
+            {status === "posting" ? "Posting…" : "Yes, post it"}
+          </button>
+          <button onClick={() => setStatus("idle")} disabled={status === "posting"} style={styles.ghostBtn}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ marginTop: 8 }}>
+      <button onClick={() => setStatus("confirming")} style={styles.secondaryBtn}>
+        💬 Share to thread
+      </button>
+      {status === "error" && error && <div style={{ marginTop: 6, fontSize: 13, opacity: 0.8 }}>{error}</div>}
+    </div>
+  );
+}
+
+// clue text with the server's redactions drawn as solid bars
+function ClueText({ text }: { text: string }) {
+  return (
+    <>
+      {splitRedacted(text).map((seg, i) =>
+        seg.redacted ? (
+          <span key={i} style={styles.redacted} title="Redacted" aria-label="redacted">
+            ▇▇▇▇
+          </span>
+        ) : (
+          <React.Fragment key={i}>{seg.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+function formatSolveTime(seconds: number) {
+  if (seconds < 60) return `${seconds}s`;
+  const m = Math.floor(seconds / 60);
+  if (m < 60) return `${m}m ${seconds % 60}s`;
+  return `${Math.floor(m / 60)}h ${m % 60}m`;
+}
+
+function LeaderboardRow({ entry, highlight }: { entry: LeaderboardEntry; highlight?: boolean }) {
+  return (
+    <div style={highlight ? styles.lbRowMe : styles.lbRow}>
+      <div style={{ ...styles.mono, width: 34, opacity: 0.85 }}>#{entry.rank}</div>
+      <div style={{ flex: 1, fontWeight: 800, overflow: "hidden", textOverflow: "ellipsis" }}>
+        u/{entry.username}
+      </div>
+      {entry.stageUsed !== undefined && (
+        <div style={{ fontSize: 12, opacity: 0.75 }}>
+          Clue {entry.stageUsed}
+          {entry.solveSeconds !== undefined && ` · ${formatSolveTime(entry.solveSeconds)}`}
+        </div>
+      )}
+      <div style={{ ...styles.mono, minWidth: 56, textAlign: "right" }}>{entry.points}</div>
+    </div>
+  );
+}
+
+function LeaderboardModal({
+  open,
+  mode,
+  dateKey,
+  onClose,
+}: {
+  open: boolean;
+  mode: GameMode;
+  dateKey: string;
+  onClose: () => void;
+}) {
+  const [scope, setScope] = useState<LeaderboardScope>("daily");
+  const [fetched, setBoard] = useState<GetLeaderboardResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    apiGetLeaderboard(mode, dateKey, scope)
+      .then((b) => {
+        if (cancelled) return;
+        setBoard(b);
+        setError(null);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load leaderboard.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, mode, dateKey, scope]);
+
+  if (!open) return null;
+
+  // ignore a board fetched for another tab/mode until the new one arrives
+  const board = fetched && fetched.scope === scope && fetched.mode === mode ? fetched : null;
+  const meInTop = !!board?.me && board.entries.some((e) => e.rank === board.me!.rank);
+
+  return (
+    <div style={styles.modalOverlay} onClick={onClose}>
+      <div style={styles.modalCard} onClick={(e) => e.stopPropagation()}>
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: 12,
+          }}
+        >
+          <div style={{ fontSize: 18, fontWeight: 800 }}>Leaderboard · {mode.toUpperCase()}</div>
+          <button onClick={onClose} style={styles.iconBtn} aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div style={{ ...styles.modeGroup, marginTop: 12, display: "inline-flex" }}>
+          {(["daily", "alltime"] as LeaderboardScope[]).map((sc) => (
+            <button
+              key={sc}
+              onClick={() => setScope(sc)}
+              style={scope === sc ? styles.modePillActive : styles.modePill}
+            >
+              {sc === "daily" ? "TODAY" : "ALL-TIME"}
+            </button>
+          ))}
+        </div>
+
+        {board?.since && (
+          <div style={{ marginTop: 8, fontSize: 12, opacity: 0.7 }}>Points won since {board.since}</div>
+        )}
+
+        <div style={{ marginTop: 12, display: "flex", flexDirection: "column", gap: 6 }}>
+          {error && <div style={{ opacity: 0.8 }}>{error}</div>}
+          {!error && !board && <div style={{ opacity: 0.75 }}>Loading…</div>}
+          {board && board.entries.length === 0 && (
+            <div style={{ opacity: 0.75 }}>
+              {scope === "daily" ? "Nobody has solved this one yet. Be the first!" : "No scores yet."}
+            </div>
+          )}
+          {board?.entries.map((e) => (
+            <LeaderboardRow key={e.rank} entry={e} highlight={board.me?.rank === e.rank} />
+          ))}
+          {board?.me && !meInTop && (
+            <>
+              <div style={{ textAlign: "center", opacity: 0.5 }}>…</div>
+              <LeaderboardRow entry={board.me} highlight />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function verdictChipStyle(verdict: GuessVerdict): React.CSSProperties {
+  if (verdict === "exact") return { background: "rgba(46,204,113,0.25)", borderColor: "rgba(46,204,113,0.55)" };
+  if (verdict === "near") return { background: "rgba(241,196,15,0.20)", borderColor: "rgba(241,196,15,0.50)" };
+  if (verdict === "related") return { background: "rgba(255,140,0,0.20)", borderColor: "rgba(255,140,0,0.50)" };
+  return { opacity: 0.7, textDecoration: "line-through" };
+}
+
+function outcomeLabel(outcome: DayHistory["outcome"]) {
+  if (outcome === "won") return "✅ Solved";
+  if (outcome === "lost") return "❌ Missed";
+  if (outcome === "gaveup") return "🏳️ Gave up";
+  return "Not played";
+}
+
+function ArchiveModal({
+  open,
+  mode,
+  onPick,
+  onClose,
+}: {
+  open: boolean;
+  mode: GameMode;
+  onPick: (dateKey: string) => void;
+  onClose: () => void;
+}) {
+  const [fetched, setArchive] = useState<ArchiveResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    apiGetArchive(mode)
+      .then((a) => {
+        if (cancelled) return;
+        setArchive(a);
+        setError(null);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load archive.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, mode]);
+
+  if (!open) return null;
+
+  const archive = fetched && fetched.mode === mode ? fetched : null;
+
+  return (
+    <div style={styles.modalOverlay} onClick={onClose}>
+      <div style={styles.modalCard} onClick={(e) => e.stopPropagation()}>
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: 12,
+          }}
+        >
+          <div style={{ fontSize: 18, fontWeight: 800 }}>Archive · {mode.toUpperCase()}</div>
+          <button onClick={onClose} style={styles.iconBtn} aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div style={{ marginTop: 8, fontSize: 13, opacity: 0.75 }}>
+          Replay past puzzles for fun. Archive games don’t earn points or count toward your streak.
+        </div>
+
+        <div style={styles.archiveList}>
+          {error && <div style={{ opacity: 0.8 }}>{error}</div>}
+          {!error && !archive && <div style={{ opacity: 0.75 }}>Loading…</div>}
+          {archive && archive.entries.length === 0 && (
+            <div style={{ opacity: 0.75 }}>No past puzzles yet.</div>
+          )}
+          {archive?.entries.map((e) => (
+            <button key={e.dateKey} onClick={() => onPick(e.dateKey)} style={styles.lbRow}>
+              <div style={{ ...styles.mono, flex: 1, textAlign: "left" }}>{e.dateKey}</div>
+              <div style={{ fontSize: 12, opacity: 0.8 }}>{outcomeLabel(e.outcome)}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function resultSquare(result: DayResult | null) {
+  if (!result) return "⬜";
+  if (result.outcome === "won") return result.solvedStage === 1 ? "🟩" : "🟨";
+  if (result.outcome === "gaveup") return "⬛";
+  return "🟥";
+}
+
+function StatsModal({
+  open,
+  mode,
+  dateKey,
+  onClose,
+}: {
+  open: boolean;
+  mode: GameMode;
+  dateKey: string;
+  onClose: () => void;
+}) {
+  const [fetched, setStats] = useState<GetStatsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    apiGetStats(mode, dateKey)
+      .then((s) => {
+        if (cancelled) return;
+        setStats(s);
+        setError(null);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load stats.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, mode, dateKey]);
+
+  if (!open) return null;
+
+  const stats = fetched && fetched.mode === mode ? fetched : null;
+  const rows: { label: string; count: number }[] = stats
+    ? [
+        { label: "Clue 1", count: stats.distribution[1] },
+        { label: "Clue 2", count: stats.distribution[2] },
+        { label: "Clue 3", count: stats.distribution[3] },
+        { label: "Missed", count: stats.distribution.failed },
+        { label: "Gave up", count: stats.distribution.gaveup },
+      ]
+    : [];
+  const maxCount = Math.max(1, ...rows.map((r) => r.count));
+
+  return (
+    <div style={styles.modalOverlay} onClick={onClose}>
+      <div style={styles.modalCard} onClick={(e) => e.stopPropagation()}>
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: 12,
+          }}
+        >
+          <div style={{ fontSize: 18, fontWeight: 800 }}>Stats · {mode.toUpperCase()}</div>
+          <button onClick={onClose} style={styles.iconBtn} aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        {error && <div style={{ marginTop: 12, opacity: 0.8 }}>{error}</div>}
+        {!error && !stats && <div style={{ marginTop: 12, opacity: 0.75 }}>Loading…</div>}
+
+        {stats && (
+          <>
+            <div style={styles.statGrid}>
+              {[
+                { label: "Played", value: stats.gamesPlayed },
+                { label: "Win %", value: stats.winRate },
+                { label: "Streak", value: stats.currentStreak },
+                { label: "Max streak", value: stats.maxStreak },
+                { label: "Avg points", value: stats.averagePoints },
+              ].map((s) => (
+                <div key={s.label} style={styles.statCell}>
+                  <div style={{ fontSize: 20, fontWeight: 900 }}>{s.value}</div>
+                  <div style={{ fontSize: 11, opacity: 0.7 }}>{s.label}</div>
+                </div>
+              ))}
+            </div>
+
+            <div style={{ marginTop: 14, fontSize: 13, fontWeight: 800, opacity: 0.85 }}>Solved on</div>
+            <div style={{ marginTop: 6, display: "flex", flexDirection: "column", gap: 4 }}>
+              {rows.map((r) => (
+                <div key={r.label} style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 12 }}>
+                  <div style={{ width: 56, opacity: 0.8 }}>{r.label}</div>
+                  <div style={{ flex: 1 }}>
+                    <div style={{ ...styles.statBar, width: `${Math.max(6, (r.count / maxCount) * 100)}%` }}>
+                      {r.count}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div style={{ marginTop: 14, fontSize: 13, fontWeight: 800, opacity: 0.85 }}>Last 30 days</div>
+            <div style={{ marginTop: 6, fontSize: 16, letterSpacing: 1, wordBreak: "break-all" }}>
+              {stats.recent.map((d) => (
+                <span key={d.dateKey} title={`${d.dateKey}: ${outcomeLabel(d.result?.outcome ?? null)}`}>
+                  {resultSquare(d.result)}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function GameApp() {
   const [loading, setLoading] = useState(true);
   const [state, setState] = useState<GetStateResponse | null>(null);
 
-  const [stage, setStage] = useState<Stage>(1);
   const [guess, setGuess] = useState("");
 
   const [toast, setToast] = useState<string | null>(null);
@@ -92,20 +557,43 @@ function GameApp() {
   const [modalTitle, setModalTitle] = useState("");
   const [modalBody, setModalBody] = useState<React.ReactNode>(null);
 
-  // The "daily" key used for ALL calls in this session
-  const [dateKey] = useState(() => localDateKey());
+  const [leaderboardOpen, setLeaderboardOpen] = useState(false);
+  const [archiveOpen, setArchiveOpen] = useState(false);
+  const [statsOpen, setStatsOpen] = useState(false);
+
+  const [suggest, setSuggest] = useState<SuggestResponse | null>(null);
+  const [suggestOpen, setSuggestOpen] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+
+  // The "daily" key used for ALL calls in this session. Starts as the local day and is
+  // replaced by the server's answer, since daily posts are bound to their own puzzle day.
+  const [dateKey, setDateKey] = useState(() => localDateKey());
+
+  // set while replaying a past puzzle picked from the archive
+  const [archiveDateKey, setArchiveDateKey] = useState<string | null>(null);
+  const playDateKey = archiveDateKey ?? dateKey;
+  const archiveRequested = archiveDateKey !== null;
+  const isArchive = archiveRequested || !!state?.archive;
 
   // MODE
   const [mode, setMode] = useState<GameMode>(() => {
     const saved = localStorage.getItem("nts:mode");
-    return saved === "easy" || saved === "medium" || saved === "hard" ? saved : "medium";
+    return GAME_MODES.find((m) => m === saved) ?? "medium";
   });
 
   useEffect(() => {
     localStorage.setItem("nts:mode", mode);
   }, [mode]);
 
-  function openAlreadyPlayedModal(m: GameMode) {
+  // the dashboard link is only a convenience; /api/admin checks moderator status itself
+  const [isModerator, setIsModerator] = useState(false);
+
+  // from /init, which sends every mode's live state so switching needs no request; kept up to date as modes are played
+  const [modeStatus, setModeStatus] = useState<ModeStatus[]>([]);
+  const [savedStates, setSavedStates] = useState<Partial<Record<GameMode, GetStateResponse>>>({});
+  const [savedOn, setSavedOn] = useState(() => localDateKey()); // local day of the last /init
+
+  function openAlreadyPlayedModal(m: GameMode, history?: DayHistory) {
     const tomorrow = localTomorrowKey();
     setModalTitle("Already played");
     setModalBody(
@@ -117,22 +605,39 @@ function GameApp() {
         <div style={styles.callout}>
           Next puzzle available <span style={{ opacity: 0.9 }}>(Local: {tomorrow})</span>.
         </div>
+        {history?.outcome && (
+          <>
+            <CopyResultButton text={formatShareText(playDateKey, m, history)} />
+            {!isArchive && (
+              <ShareToThreadButton mode={m} dateKey={dateKey} alreadyShared={!!history.sharedCommentId} />
+            )}
+          </>
+        )}
       </div>
     );
     setModalOpen(true);
   }
 
+  function applyInit(init: GameInitResponse, showState: boolean) {
+    if (showState) setState(init.state);
+    setDateKey(init.dateKey);
+    setIsModerator(init.isModerator);
+    setModeStatus(init.modes);
+    setSavedStates(init.states);
+    setSavedOn(localDateKey());
+  }
+
   useEffect(() => {
-    (async () => {
+    void (async () => {
       try {
-        const s = await apiGetState(mode, dateKey);
-        setState(s);
+        const init = await apiGameInit(mode, dateKey);
+        applyInit(init, true);
 
-        if (s.completedToday) {
+        if (init.state.completedToday) {
           setToast(`You already played ${mode.toUpperCase()} today.`);
         }
-      } catch (e: any) {
-        setToast(e?.message ?? "Failed to load game.");
+      } catch (e: unknown) {
+        setToast(e instanceof Error ? e.message : "Failed to load game.");
       } finally {
         setLoading(false);
       }
@@ -140,47 +645,83 @@ function GameApp() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // coming back to the tab on a new local day: posts that aren't bound to a day move on to it.
+  // An archive replay is left alone; going back to today reloads everything anyway.
+  useEffect(() => {
+    function onVisible() {
+      if (document.visibilityState !== "visible" || submitting || isArchive) return;
+      if (localDateKey() === savedOn) return;
+      apiGameInit(mode, localDateKey())
+        .then((init) => {
+          if (init.dateKey !== dateKey) {
+            setGuess("");
+            setRevealedAnswer(null);
+          }
+          applyInit(init, true);
+        })
+        .catch(() => {
+          // keep what's on screen; the next action reports any real problem
+        });
+    }
+    document.addEventListener("visibilitychange", onVisible);
+    return () => document.removeEventListener("visibilitychange", onVisible);
+  }, [mode, dateKey, submitting, isArchive, savedOn]);
+
   const puzzle = state?.puzzle;
+  // the server owns the reveal stage, so a reload picks up where the player left off
+  const stage: Stage = puzzle?.stage ?? 1;
 
   const stageLabel = useMemo(() => {
+    if (mode === "choice") {
+      if (stage === 1) return "Clue 1 · Comment only · 50 pts";
+      if (stage === 2) return "Clue 2 · + Post body · 30 pts";
+      return "Clue 3 · + Title · 15 pts";
+    }
+    if (mode === "image") {
+      if (stage === 1) return "Clue 1 · Blurred image · 100 pts";
+      if (stage === 2) return "Clue 2 · Full image · 60 pts";
+      return "Clue 3 · + Title · 30 pts";
+    }
+    if (mode === "thread") {
+      if (stage === 1) return "Clue 1 · Three comments · 100 pts";
+      if (stage === 2) return "Clue 2 · + More comments · 60 pts";
+      return "Clue 3 · + Title · 30 pts";
+    }
     if (stage === 1) return "Clue 1 · Comment only · 100 pts";
     if (stage === 2) return "Clue 2 · + Post body · 60 pts";
     return "Clue 3 · + Title · 30 pts";
-  }, [stage]);
+  }, [mode, stage]);
+
+  async function nextClue() {
+    setToast(null);
+
+    if (state?.completedToday) {
+      openAlreadyPlayedModal(mode, state.history);
+      return;
+    }
 
-  async function lockIfNeeded() {
-    if (!state) return;
-    if (state.modeIsLocked) return;
+    setSubmitting(true);
     try {
-      const res = await apiLockMode(mode, dateKey);
+      const res = await apiReveal(mode, playDateKey, archiveRequested);
       setState((prev) =>
         prev
           ? {
               ...prev,
-              modeIsLocked: true,
+              puzzle: res.puzzle,
+              modeIsLocked: res.modeIsLocked,
               modeLocked: res.modeLocked ?? prev.modeLocked,
               completedToday: res.completedToday ?? prev.completedToday,
             }
           : prev
       );
-    } catch {
-      // ignore
-    }
-  }
-
-  async function nextClue() {
-    setToast(null);
-
-    if (state?.completedToday) {
-      openAlreadyPlayedModal(mode);
-      return;
+    } catch (e: unknown) {
+      setToast(e instanceof Error ? e.message : "Failed to reveal the next clue.");
+    } finally {
+      setSubmitting(false);
     }
-
-    if (stage === 1) await lockIfNeeded();
-    setStage((s) => (s === 1 ? 2 : s === 2 ? 3 : 3));
   }
 
-  function openComeBackModal(kind: "win" | "giveup", answer: string) {
+  function openComeBackModal(kind: "win" | "giveup", answer: string, history: DayHistory) {
     const tomorrow = localTomorrowKey();
     setModalTitle(kind === "win" ? "Nice!" : "All good!");
     setModalBody(
@@ -193,27 +734,43 @@ function GameApp() {
           Come back tomorrow for the next puzzle{" "}
           <span style={{ opacity: 0.9 }}>(Local: {tomorrow})</span>.
         </div>
+        <CopyResultButton text={formatShareText(playDateKey, mode, history)} />
+        {!isArchive && (
+          <ShareToThreadButton mode={mode} dateKey={dateKey} alreadyShared={!!history.sharedCommentId} />
+        )}
       </div>
     );
     setModalOpen(true);
   }
 
-  async function submitGuess() {
+  // choice mode passes the picked option; the text modes submit whatever is typed
+  async function submitGuess(raw: string = guess) {
     if (!puzzle) return;
 
     if (state?.completedToday) {
-      openAlreadyPlayedModal(mode);
+      openAlreadyPlayedModal(mode, state.history);
       return;
     }
 
-    const cleaned = normalizeInput(guess);
+    const cleaned = normalizeInput(raw);
     if (!cleaned) return;
 
+    if (!isValidSubredditName(cleaned)) {
+      setToast(`🤔 "${cleaned}" isn't a valid subreddit name.`);
+      return;
+    }
+
+    if (state?.history.attempts.some((a) => a.guess.toLowerCase() === cleaned.toLowerCase())) {
+      setToast(`You already tried r/${cleaned}.`);
+      return;
+    }
+
+    setSuggestOpen(false);
     setSubmitting(true);
     setToast(null);
 
     try {
-      const res = await apiGuess(cleaned, stage, mode, dateKey);
+      const res = await apiGuess(cleaned, mode, playDateKey, archiveRequested);
 
       // keep state consistent immediately
       setState((prev) =>
@@ -229,33 +786,67 @@ function GameApp() {
           : prev
       );
 
+      const left = `${res.guessesLeft} guess${res.guessesLeft === 1 ? "" : "es"} left`;
+
       if (res.correct) {
+        const answer = res.answer ?? cleaned;
+        setRevealedAnswer(answer);
+        const freezeNote =
+          res.streakFreeze === "used"
+            ? " · 🧊 Freeze saved your streak"
+            : res.streakFreeze === "earned"
+              ? " · 🧊 Earned a streak freeze"
+              : "";
+        setToast(
+          `✅ Correct! +${res.pointsAwarded} pts · Streak ${res.streak} · Total ${res.totalScore}${freezeNote}`
+        );
+        openComeBackModal("win", answer, res.history);
+      } else if (res.verdict === "unknown") {
+        setToast(`🤔 r/${cleaned} doesn't exist — that one didn't count.`);
+      } else if (res.answer !== undefined) {
         setRevealedAnswer(res.answer);
-        setToast(`✅ Correct! +${res.pointsAwarded} pts · Streak ${res.streak} · Total ${res.totalScore}`);
-        openComeBackModal("win", res.answer);
+        setToast(`❌ Out of guesses. Answer: r/${res.answer}`);
+        openComeBackModal("giveup", res.answer, res.history);
+      } else if (res.verdict === "near") {
+        setToast(`🔥 So close! Check the spelling · ${left}.`);
       } else {
-        if (stage < 3) setToast("❌ Not quite. Reveal the next clue or try again.");
-        else {
-          setRevealedAnswer(res.answer);
-          setToast(`❌ Nope. Answer: r/${res.answer}`);
-          openComeBackModal("giveup", res.answer);
-        }
+        const hint = res.stageUsed < 3 ? "Reveal the next clue or try again" : "Try again";
+        setToast(
+          res.verdict === "related"
+            ? `🌡️ Warm — that's a related sub. ${hint} · ${left}.`
+            : `❌ Not quite. ${hint} · ${left}.`
+        );
       }
 
-      const s = await apiGetState(mode, dateKey);
+      const s = await apiGetState(mode, playDateKey, archiveRequested);
       setState(s);
-    } catch (e: any) {
-      setToast(e?.message ?? "Failed to submit guess.");
+    } catch (e: unknown) {
+      await handlePlayError(e, "Failed to submit guess.");
     } finally {
       setSubmitting(false);
     }
   }
 
+  // another tab (or a double tap) already finished this puzzle: catch up instead of erroring
+  async function handlePlayError(e: unknown, fallback: string) {
+    if (e instanceof ApiError && e.code === "ALREADY_COMPLETED") {
+      try {
+        const s = await apiGetState(mode, playDateKey, archiveRequested);
+        setState(s);
+        openAlreadyPlayedModal(mode, s.history);
+        return;
+      } catch {
+        // fall through to the toast
+      }
+    }
+    setToast(e instanceof Error ? e.message : fallback);
+  }
+
   async function giveUp() {
     if (!puzzle) return;
 
     if (state?.completedToday) {
-      openAlreadyPlayedModal(mode);
+      openAlreadyPlayedModal(mode, state.history);
       return;
     }
 
@@ -263,9 +854,8 @@ function GameApp() {
     setToast(null);
 
     try {
-      const res = await apiGiveUp(mode, dateKey);
+      const res = await apiGiveUp(mode, playDateKey, archiveRequested);
 
-      setStage(3);
       setRevealedAnswer(res.answer);
 
       setState((prev) =>
@@ -280,17 +870,65 @@ function GameApp() {
       );
 
       setToast(`Answer: r/${res.answer}`);
-      openComeBackModal("giveup", res.answer);
+      openComeBackModal("giveup", res.answer, res.history);
 
-      const s = await apiGetState(mode, dateKey);
+      const s = await apiGetState(mode, playDateKey, archiveRequested);
       setState(s);
-    } catch (e: any) {
-      setToast(e?.message ?? "Failed to give up.");
+    } catch (e: unknown) {
+      await handlePlayError(e, "Failed to give up.");
     } finally {
       setSubmitting(false);
     }
   }
 
+  // debounced autocomplete; stale responses are ignored via the query echoed back
+  const suggestQuery = normalizeInput(guess).replace(/[^A-Za-z0-9_]/g, "");
+  useEffect(() => {
+    if (suggestQuery.length < 2) return;
+    let cancelled = false;
+    const t = setTimeout(() => {
+      apiSuggest(suggestQuery)
+        .then((r) => {
+          if (!cancelled) setSuggest(r);
+        })
+        .catch(() => {
+          // suggestions are best-effort
+        });
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [suggestQuery]);
+
+  const suggestions =
+    suggestOpen && suggest && suggest.query.toLowerCase() === suggestQuery.toLowerCase()
+      ? suggest.suggestions
+      : [];
+
+  function pickSuggestion(name: string) {
+    setGuess(name);
+    setSuggestOpen(false);
+    setActiveSuggestion(-1);
+  }
+
+  function onGuessKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "ArrowDown" && suggestions.length) {
+      e.preventDefault();
+      setActiveSuggestion((i) => Math.min(i + 1, suggestions.length - 1));
+    } else if (e.key === "ArrowUp" && suggestions.length) {
+      e.preventDefault();
+      setActiveSuggestion((i) => Math.max(i - 1, -1));
+    } else if (e.key === "Escape") {
+      setSuggestOpen(false);
+      setActiveSuggestion(-1);
+    } else if (e.key === "Enter") {
+      const picked = suggestions[activeSuggestion];
+      if (picked) pickSuggestion(picked);
+      else void submitGuess();
+    }
+  }
+
   useEffect(() => {
     if (!toast) return;
     const t = setTimeout(() => setToast(null), 4500);
@@ -300,25 +938,51 @@ function GameApp() {
   async function switchMode(m: GameMode) {
     if (submitting) return;
 
+    if (state && !isArchive) setSavedStates((prev) => ({ ...prev, [mode]: state }));
+    // nothing saved survives midnight: the live puzzle may have moved on
+    const saved = savedOn === localDateKey() ? savedStates[m] : undefined;
+
     setMode(m);
-    setLoading(true);
+    setLoading(!saved);
     setToast(null);
 
     try {
-      const s = await apiGetState(m, dateKey);
+      // switching modes always returns to the live puzzle
+      const s = saved ?? (await apiGetState(m, dateKey));
       setState(s);
+      setArchiveDateKey(null);
 
       // reset per-mode UI
-      setStage(1);
       setGuess("");
       setRevealedAnswer(null);
 
       if (s.completedToday) {
         setToast(`You already played ${m.toUpperCase()} today.`);
-        openAlreadyPlayedModal(m);
+        openAlreadyPlayedModal(m, s.history);
       }
-    } catch (e: any) {
-      setToast(e?.message ?? "Failed to switch mode.");
+    } catch (e: unknown) {
+      setToast(e instanceof Error ? e.message : "Failed to switch mode.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadPuzzle(dk: string | null) {
+    if (submitting) return;
+
+    setArchiveOpen(false);
+    setLoading(true);
+    setToast(null);
+
+    try {
+      const s = await apiGetState(mode, dk ?? dateKey, dk !== null);
+      setState(s);
+      setArchiveDateKey(dk !== null && s.archive ? s.puzzle.dateKey : null);
+
+      setGuess("");
+      setRevealedAnswer(null);
+    } catch (e: unknown) {
+      setToast(e instanceof Error ? e.message : "Failed to load puzzle.");
     } finally {
       setLoading(false);
     }
@@ -350,6 +1014,11 @@ function GameApp() {
     );
   }
 
+  function modeCompleted(m: GameMode): boolean {
+    if (m === mode && !isArchive) return state?.completedToday ?? false;
+    return savedStates[m]?.completedToday ?? modeStatus.find((st) => st.mode === m)?.completed ?? false;
+  }
+
   const completed = !!state.completedToday;
   const disabled = submitting || !!revealedAnswer || completed;
 
@@ -365,13 +1034,35 @@ function GameApp() {
               <h1 style={styles.h1}>Name That Sub</h1>
             </div>
             <div style={styles.subhead}>
-              Daily <span style={styles.mono}>{puzzle.dateKey}</span> · Score{" "}
+              {isArchive ? "Archive" : "Daily"} <span style={styles.mono}>{puzzle.dateKey}</span> · Score{" "}
               <span style={styles.mono}>{state.totalScore}</span> · Streak{" "}
               <span style={styles.mono}>{state.streak}</span>
+              <span
+                title={`Streak freezes: ${state.streakFreezes} owned, ${state.streakFreezesUsed} used. One is spent automatically if you miss a single day.`}
+              >
+                {" "}
+                🧊 <span style={styles.mono}>{state.streakFreezes}</span>
+                {state.streakFreezesUsed > 0 && (
+                  <span style={{ opacity: 0.7 }}> ({state.streakFreezesUsed} used)</span>
+                )}
+              </span>
               {" · "}Mode <span style={styles.mono}>{mode.toUpperCase()}</span>
             </div>
 
-            {completed && (
+            {isArchive && (
+              <div style={{ marginTop: 8, display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                <div style={styles.completedBanner}>
+                  Replaying a past puzzle — no points or streak{completed ? " · already played" : ""}.
+                </div>
+                {archiveRequested && (
+                  <button onClick={() => loadPuzzle(null)} style={styles.ghostBtn} disabled={submitting}>
+                    ← Back to today
+                  </button>
+                )}
+              </div>
+            )}
+
+            {completed && !isArchive && (
               <div style={{ marginTop: 8 }}>
                 <div style={styles.completedBanner}>You already played this mode today — come back tomorrow.</div>
               </div>
@@ -380,7 +1071,7 @@ function GameApp() {
 
           <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
             <div style={styles.modeGroup}>
-              {(["easy", "medium", "hard"] as GameMode[]).map((m) => {
+              {GAME_MODES.map((m) => {
                 const active = mode === m;
                 return (
                   <button
@@ -390,11 +1081,30 @@ function GameApp() {
                     disabled={submitting}
                   >
                     {m.toUpperCase()}
+                    {modeCompleted(m) ? " ✓" : ""}
                   </button>
                 );
               })}
             </div>
 
+            <button onClick={() => setStatsOpen(true)} style={styles.secondaryBtn}>
+              📊 Stats
+            </button>
+
+            <button onClick={() => setArchiveOpen(true)} style={styles.secondaryBtn}>
+              📚 Archive
+            </button>
+
+            <button onClick={() => setLeaderboardOpen(true)} style={styles.secondaryBtn}>
+              🏆 Leaderboard
+            </button>
+
+            {isModerator && (
+              <a href="./admin.html" style={{ textDecoration: "none" }}>
+                <button style={styles.secondaryBtn}>🛠 Dashboard</button>
+              </a>
+            )}
+
             <div style={styles.badge}>r/…</div>
           </div>
         </header>
@@ -404,47 +1114,151 @@ function GameApp() {
             <section style={styles.glassCard}>
               <div style={styles.cardTopRow}>
                 <div style={styles.pill}>{stageLabel}</div>
-                <div style={{ opacity: 0.65, fontSize: 12 }}>Tip: Guess earlier for more points.</div>
+                <div style={{ opacity: 0.65, fontSize: 12 }}>
+                  Guesses{" "}
+                  <span style={styles.mono}>
+                    {state.guessesUsed}/{state.guessesAllowed}
+                  </span>{" "}
+                  · Guess earlier for more points.
+                </div>
               </div>
 
-              <div style={styles.block}>
-                <div style={styles.blockLabel}>Comment</div>
-                <div style={styles.textBlock}>{puzzle.commentBody}</div>
-              </div>
+              {puzzle.mode === "image" ? (
+                <div style={styles.block}>
+                  <div style={styles.blockLabel}>Image</div>
+                  {puzzle.media ? (
+                    <div style={puzzle.media.blurred ? styles.imageFrameBlurred : styles.imageFrame}>
+                      <img
+                        src={puzzle.media.url}
+                        alt="Puzzle image"
+                        style={puzzle.media.blurred ? styles.imageBlurred : styles.image}
+                      />
+                    </div>
+                  ) : (
+                    <div style={{ ...styles.imageFrameBlurred, ...styles.imagePending }}>
+                      The image appears with the next clue.
+                    </div>
+                  )}
+                </div>
+              ) : puzzle.threadComments ? (
+                <div style={styles.block}>
+                  <div style={styles.blockLabel}>Comments</div>
+                  <div style={styles.commentCards}>
+                    {puzzle.threadComments.map((body, i) => (
+                      <div key={i} style={styles.commentCard}>
+                        <ClueText text={body} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <div style={styles.block}>
+                  <div style={styles.blockLabel}>Comment</div>
+                  <div style={styles.textBlock}>
+                    <ClueText text={puzzle.commentBody} />
+                  </div>
+                </div>
+              )}
 
-              {stage >= 2 && (
+              {puzzle.postBody !== undefined && (
                 <div style={styles.block}>
                   <div style={styles.blockLabel}>Post body</div>
                   <div style={styles.textBlock}>
-                    {puzzle.postBody?.trim() ? puzzle.postBody : <i style={{ opacity: 0.8 }}>(No body — title-only post)</i>}
+                    {puzzle.postBody?.trim() ? <ClueText text={puzzle.postBody} /> : <i style={{ opacity: 0.8 }}>(No body — title-only post)</i>}
                   </div>
                 </div>
               )}
 
-              {stage >= 3 && (
+              {puzzle.postTitle !== undefined && (
                 <div style={styles.block}>
                   <div style={styles.blockLabel}>Title</div>
-                  <div style={styles.textBlock}>{puzzle.postTitle}</div>
+                  <div style={styles.textBlock}>
+                    <ClueText text={puzzle.postTitle} />
+                  </div>
                 </div>
               )}
             </section>
 
             <section style={styles.controlsSticky}>
               <div style={styles.controlsInner}>
-                <div style={styles.inputRow}>
-                  <div style={styles.inputPrefix}>r/</div>
-                  <input
-                    value={guess}
-                    onChange={(e) => setGuess(e.target.value)}
-                    placeholder="Type the subreddit name… (e.g. AskReddit)"
-                    style={styles.input}
-                    disabled={disabled}
-                    onKeyDown={(e) => e.key === "Enter" && submitGuess()}
-                  />
-                  <button onClick={submitGuess} disabled={disabled || !guess.trim()} style={styles.primaryBtn}>
-                    Guess
-                  </button>
-                </div>
+                {state.history.attempts.length > 0 && (
+                  <div style={styles.guessChips}>
+                    {state.history.attempts.map((a, i) => (
+                      <div
+                        key={`${a.guess}-${i}`}
+                        title={`Clue ${a.stage} · ${a.verdict}`}
+                        style={{ ...styles.guessChip, ...verdictChipStyle(a.verdict) }}
+                      >
+                        r/{a.guess}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {puzzle.choices ? (
+                  <div style={styles.choiceGrid}>
+                    {puzzle.choices.map((choice) => {
+                      const tried = state.history.attempts.some(
+                        (a) => a.guess.toLowerCase() === choice.toLowerCase()
+                      );
+                      return (
+                        <button
+                          key={choice}
+                          onClick={() => submitGuess(choice)}
+                          disabled={disabled || tried}
+                          style={tried ? styles.choiceBtnTried : styles.choiceBtn}
+                        >
+                          r/{choice}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <div style={styles.inputRow}>
+                    <div style={styles.inputPrefix}>r/</div>
+                    <div style={styles.inputWrap}>
+                      <input
+                        value={guess}
+                        onChange={(e) => {
+                          setGuess(e.target.value);
+                          setSuggestOpen(true);
+                          setActiveSuggestion(-1);
+                        }}
+                        onBlur={() => setSuggestOpen(false)}
+                        placeholder="Type the subreddit name… (e.g. AskReddit)"
+                        style={styles.input}
+                        disabled={disabled}
+                        onKeyDown={onGuessKeyDown}
+                        role="combobox"
+                        aria-expanded={suggestions.length > 0}
+                        aria-autocomplete="list"
+                      />
+                      {!disabled && suggestions.length > 0 && (
+                        <div style={styles.suggestList} role="listbox">
+                          {suggestions.map((name, i) => (
+                            <div
+                              key={name}
+                              role="option"
+                              aria-selected={i === activeSuggestion}
+                              // mousedown so the pick lands before the input's blur closes the list
+                              onMouseDown={(e) => {
+                                e.preventDefault();
+                                pickSuggestion(name);
+                              }}
+                              onMouseEnter={() => setActiveSuggestion(i)}
+                              style={i === activeSuggestion ? styles.suggestItemActive : styles.suggestItem}
+                            >
+                              r/{name}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <button onClick={() => submitGuess()} disabled={disabled || !guess.trim()} style={styles.primaryBtn}>
+                      Guess
+                    </button>
+                  </div>
+                )}
 
                 <div style={styles.btnRow}>
                   <button onClick={nextClue} disabled={disabled || stage === 3} style={styles.secondaryBtn}>
@@ -473,6 +1287,22 @@ function GameApp() {
       )}
 
       <Modal open={modalOpen} title={modalTitle} body={modalBody} onClose={() => setModalOpen(false)} />
+
+      <LeaderboardModal
+        open={leaderboardOpen}
+        mode={mode}
+        dateKey={dateKey}
+        onClose={() => setLeaderboardOpen(false)}
+      />
+
+      <ArchiveModal
+        open={archiveOpen}
+        mode={mode}
+        onPick={(dk) => loadPuzzle(dk)}
+        onClose={() => setArchiveOpen(false)}
+      />
+
+      <StatsModal open={statsOpen} mode={mode} dateKey={dateKey} onClose={() => setStatsOpen(false)} />
     </div>
   );
 }
@@ -627,6 +1457,69 @@ const styles: Record<string, React.CSSProperties> = {
     color: "rgba(255,255,255,0.92)",
     wordBreak: "break-word",
   },
+  imageFrame: {
+    borderRadius: 12,
+    overflow: "hidden",
+    background: "rgba(0,0,0,0.25)",
+    display: "flex",
+    justifyContent: "center",
+  },
+  image: {
+    display: "block",
+    maxWidth: "100%",
+    maxHeight: 360,
+    objectFit: "contain",
+  },
+  // stage 1: a centre crop of the thumbnail, heavily blurred
+  imageFrameBlurred: {
+    borderRadius: 12,
+    overflow: "hidden",
+    height: 200,
+    background: "rgba(0,0,0,0.25)",
+  },
+  imageBlurred: {
+    display: "block",
+    width: "100%",
+    height: "100%",
+    objectFit: "cover",
+    filter: "blur(14px)",
+    transform: "scale(1.6)",
+  },
+  // stage 1 of an older image puzzle cached without a thumbnail
+  imagePending: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  redacted: {
+    display: "inline-block",
+    padding: "0 4px",
+    margin: "0 1px",
+    borderRadius: 4,
+    background: "rgba(255,255,255,0.85)",
+    color: "transparent",
+    fontSize: "0.85em",
+    lineHeight: 1.2,
+    userSelect: "none",
+  },
+  commentCards: {
+    display: "flex",
+    flexDirection: "column",
+    gap: 8,
+  },
+  commentCard: {
+    whiteSpace: "pre-wrap",
+    lineHeight: 1.4,
+    fontSize: 14,
+    color: "rgba(255,255,255,0.92)",
+    wordBreak: "break-word",
+    padding: "10px 12px",
+    borderRadius: 12,
+    background: "rgba(255,255,255,0.05)",
+    border: "1px solid rgba(255,255,255,0.10)",
+  },
 
   controlsSticky: {
     position: "sticky",
@@ -653,9 +1546,10 @@ const styles: Record<string, React.CSSProperties> = {
     fontWeight: 900,
     opacity: 0.9,
   },
+  inputWrap: { position: "relative", flex: "1 1 220px", minWidth: 180 },
   input: {
-    flex: "1 1 220px",
-    minWidth: 180,
+    width: "100%",
+    boxSizing: "border-box",
     padding: "10px 12px",
     borderRadius: 12,
     border: "1px solid rgba(255,255,255,0.16)",
@@ -665,6 +1559,34 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: 14,
   },
 
+  suggestList: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: "calc(100% + 6px)",
+    padding: 6,
+    borderRadius: 12,
+    background: "rgba(20,24,36,0.96)",
+    border: "1px solid rgba(255,255,255,0.16)",
+    boxShadow: "0 -10px 40px rgba(0,0,0,0.45)",
+    zIndex: 20,
+  },
+  suggestItem: {
+    padding: "8px 10px",
+    borderRadius: 8,
+    fontSize: 14,
+    cursor: "pointer",
+    color: "rgba(255,255,255,0.9)",
+  },
+  suggestItemActive: {
+    padding: "8px 10px",
+    borderRadius: 8,
+    fontSize: 14,
+    cursor: "pointer",
+    color: "white",
+    background: "rgba(255,69,0,0.28)",
+  },
+
   btnRow: { display: "flex", gap: 10, marginTop: 10, flexWrap: "wrap" },
   primaryBtn: {
     padding: "10px 14px",
@@ -675,6 +1597,35 @@ const styles: Record<string, React.CSSProperties> = {
     fontWeight: 900,
     cursor: "pointer",
   },
+  choiceGrid: {
+    display: "grid",
+    gridTemplateColumns: "1fr 1fr",
+    gap: 8,
+  },
+  choiceBtn: {
+    padding: "12px 10px",
+    borderRadius: 12,
+    border: "1px solid rgba(255,255,255,0.18)",
+    background: "rgba(255,255,255,0.08)",
+    color: "white",
+    fontWeight: 800,
+    cursor: "pointer",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+  },
+  choiceBtnTried: {
+    padding: "12px 10px",
+    borderRadius: 12,
+    border: "1px solid rgba(255,255,255,0.08)",
+    background: "rgba(255,255,255,0.03)",
+    color: "rgba(255,255,255,0.45)",
+    fontWeight: 800,
+    textDecoration: "line-through",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+  },
   secondaryBtn: {
     padding: "10px 14px",
     borderRadius: 12,
@@ -752,6 +1703,16 @@ const styles: Record<string, React.CSSProperties> = {
     cursor: "pointer",
     fontWeight: 900,
   },
+  sharePreview: {
+    margin: "0 0 10px",
+    padding: 12,
+    borderRadius: 14,
+    background: "rgba(0,0,0,0.25)",
+    border: "1px solid rgba(255,255,255,0.10)",
+    fontSize: 13,
+    lineHeight: 1.5,
+    whiteSpace: "pre-wrap",
+  },
   callout: {
     padding: 12,
     borderRadius: 14,
@@ -761,6 +1722,70 @@ const styles: Record<string, React.CSSProperties> = {
     fontWeight: 700,
   },
 
+  lbRow: {
+    display: "flex",
+    alignItems: "center",
+    gap: 10,
+    padding: "8px 10px",
+    borderRadius: 12,
+    background: "rgba(0,0,0,0.22)",
+    border: "1px solid rgba(255,255,255,0.10)",
+    fontSize: 14,
+  },
+  guessChips: {
+    display: "flex",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 8,
+  },
+  guessChip: {
+    padding: "3px 8px",
+    borderRadius: 999,
+    fontSize: 12,
+    fontWeight: 700,
+    border: "1px solid rgba(255,255,255,0.14)",
+    background: "rgba(255,255,255,0.06)",
+  },
+  statGrid: {
+    marginTop: 12,
+    display: "grid",
+    gridTemplateColumns: "repeat(5, 1fr)",
+    gap: 6,
+  },
+  statCell: {
+    padding: "8px 4px",
+    borderRadius: 12,
+    background: "rgba(255,255,255,0.06)",
+    border: "1px solid rgba(255,255,255,0.10)",
+    textAlign: "center",
+  },
+  statBar: {
+    padding: "2px 6px",
+    borderRadius: 6,
+    background: "rgba(255,69,0,0.55)",
+    fontWeight: 800,
+    textAlign: "right",
+    boxSizing: "border-box",
+  },
+  archiveList: {
+    marginTop: 12,
+    display: "flex",
+    flexDirection: "column",
+    gap: 6,
+    maxHeight: "50vh",
+    overflowY: "auto",
+  },
+  lbRowMe: {
+    display: "flex",
+    alignItems: "center",
+    gap: 10,
+    padding: "8px 10px",
+    borderRadius: 12,
+    background: "rgba(255,69,0,0.16)",
+    border: "1px solid rgba(255,69,0,0.28)",
+    fontSize: 14,
+  },
+
   modeGroup: {
     display: "flex",
     padding: 6,
@@ -1,14 +1,12 @@
 // src/client/splash.tsx
 import React, { useEffect, useMemo, useState } from "react";
 import { createRoot } from "react-dom/client";
+import { GAME_MODES, type GameMode } from "../shared/api";
 import "./index.css";
 
-type GameMode = "easy" | "medium" | "hard";
-
 function normalizeMode(raw: unknown): GameMode {
   const s = String(raw ?? "").toLowerCase();
-  if (s === "easy" || s === "medium" || s === "hard") return s;
-  return "medium";
+  return GAME_MODES.find((m) => m === s) ?? "medium";
 }
 
 function SplashApp() {
@@ -24,6 +22,9 @@ function SplashApp() {
   const modeDesc = useMemo(() => {
     if (mode === "easy") return "Big, recognizable subs. Great warm-up.";
     if (mode === "medium") return "A mix of popular and niche. Balanced.";
+    if (mode === "thread") return "Short comments from all over one sub. Connect the dots.";
+    if (mode === "image") return "One picture, blurred at first. Name the sub it was posted to.";
+    if (mode === "choice") return "Pick the sub from four options. Fewer points, no typing.";
     return "Anything goes. Expect curveballs.";
   }, [mode]);
 
@@ -46,7 +47,7 @@ function SplashApp() {
           </div>
 
           <div style={styles.modeGroup} aria-label="Choose difficulty">
-            {(["easy", "medium", "hard"] as GameMode[]).map((m) => {
+            {GAME_MODES.map((m) => {
               const active = mode === m;
               return (
                 <button
@@ -0,0 +1,31 @@
+// src/server/core/aliases.ts
+import { redis } from "@devvit/web/server";
+
+export type AnswerAliases = {
+  aliases: string[]; // accepted as correct (e.g. "Pictures" for r/pics)
+  related: string[]; // wrong, but earn a "related sub" hint
+};
+
+function kAliases() {
+  return `nts:aliases`; // lowercased answer -> AnswerAliases JSON
+}
+
+export async function readAliases(answer: string): Promise<AnswerAliases> {
+  const raw = await redis.hGet(kAliases(), answer.toLowerCase());
+  if (!raw) return { aliases: [], related: [] };
+  try {
+    const parsed = JSON.parse(raw) as Partial<AnswerAliases>;
+    return { aliases: parsed.aliases ?? [], related: parsed.related ?? [] };
+  } catch {
+    return { aliases: [], related: [] };
+  }
+}
+
+export async function writeAliases(answer: string, value: AnswerAliases): Promise<void> {
+  const field = answer.toLowerCase();
+  if (value.aliases.length === 0 && value.related.length === 0) {
+    await redis.hDel(kAliases(), [field]);
+    return;
+  }
+  await redis.hSet(kAliases(), { [field]: JSON.stringify(value) });
+}
@@ -0,0 +1,68 @@
+// src/server/core/archive.ts
+import { redis } from "@devvit/web/server";
+import type { DayHistory, GameMode } from "../../shared/api";
+import { dayNumber } from "./dateKey";
+
+function kArchiveIndex(mode: GameMode) {
+  return `nts:archive:${mode}`; // dateKey members, scored by day number
+}
+function kArchiveHistory(userId: string, mode: GameMode) {
+  return `nts:user:${userId}:${mode}:archive`; // dateKey -> DayHistory JSON, never expires
+}
+
+export async function addToArchive(mode: GameMode, dateKey: string): Promise<void> {
+  await redis.zAdd(kArchiveIndex(mode), { member: dateKey, score: dayNumber(dateKey) });
+}
+
+export async function isArchived(mode: GameMode, dateKey: string): Promise<boolean> {
+  return (await redis.zScore(kArchiveIndex(mode), dateKey)) !== undefined;
+}
+
+/** Archived dateKeys strictly before `beforeDateKey`, newest first. */
+export async function listArchive(
+  mode: GameMode,
+  beforeDateKey: string,
+  limit: number
+): Promise<string[]> {
+  const rows = await redis.zRange(kArchiveIndex(mode), dayNumber(beforeDateKey) - 1, 0, {
+    by: "score",
+    reverse: true,
+    limit: { offset: 0, count: limit },
+  });
+  return rows.map((r) => r.member);
+}
+
+export async function readArchiveHistories(
+  userId: string,
+  mode: GameMode,
+  dateKeys: string[]
+): Promise<(DayHistory | null)[]> {
+  if (dateKeys.length === 0) return [];
+  const raw = await redis.hMGet(kArchiveHistory(userId, mode), dateKeys);
+  return raw.map((r) => {
+    if (!r) return null;
+    try {
+      return JSON.parse(r) as DayHistory;
+    } catch {
+      return null;
+    }
+  });
+}
+
+export async function readArchiveHistory(
+  userId: string,
+  mode: GameMode,
+  dateKey: string
+): Promise<DayHistory> {
+  const [history] = await readArchiveHistories(userId, mode, [dateKey]);
+  return history ?? { attempts: [], outcome: null };
+}
+
+export async function writeArchiveHistory(
+  userId: string,
+  mode: GameMode,
+  dateKey: string,
+  history: DayHistory
+): Promise<void> {
+  await redis.hSet(kArchiveHistory(userId, mode), { [dateKey]: JSON.stringify(history) });
+}
@@ -0,0 +1,138 @@
+// src/server/core/contentSafety.ts
+import { redis, settings } from "@devvit/web/server";
+import type { GameMode } from "../../shared/api";
+
+// Clue text comes from random r/all subs but is featured in this community, so every
+// comment, title and body passes through a pipeline of checks before it can be used.
+// Each check returns a rejection reason, or null to let the text through; add new ones to CHECKS.
+
+export type SafetyConfig = {
+  blockedWords: string[]; // built-in list plus the moderators' own, lowercased
+  blockContactInfo: boolean; // emails and phone numbers
+  blockLinks: boolean; // any non-Reddit link
+};
+
+type SafetyCheck = (text: string) => string | null;
+
+export type SafetyRejection = {
+  kind: "comment" | "post";
+  id: string;
+  reason: string;
+  at: string; // ISO timestamp
+};
+
+// graphic or self-harm phrasing that should never be a featured clue; moderators extend it in settings
+const BUILTIN_BLOCKED_WORDS = [
+  "kill yourself",
+  "kys",
+  "suicide",
+  "self harm",
+  "rape",
+  "gore",
+  "nsfl",
+  "dox",
+  "doxx",
+];
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+// (555) 123-4567 / 555.123.4567 style, or anything dialled with a +country prefix;
+// loose enough for real numbers, strict enough that a run of years doesn't match
+const PHONE =
+  /(?<!\d)(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}(?!\d)|\+\d{1,3}[\s.-]?\d{2,4}[\s.-]?\d{3,4}[\s.-]?\d{3,4}(?!\d)/;
+const LINK = /\bhttps?:\/\/(?![\w.-]*\b(?:reddit\.com|redd\.it)\b)\S+|\bwww\.\S+/i;
+
+const MAX_LOGGED = 50;
+const LOG_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function parseWordList(input: unknown): string[] {
+  return String(input ?? "")
+    .split(/[\n,]+/)
+    .map((w) => w.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export async function readSafetyConfig(): Promise<SafetyConfig> {
+  const [words, contact, links] = await Promise.all([
+    settings.get<string>("safetyBlockedWords"),
+    settings.get<boolean>("safetyBlockContactInfo"),
+    settings.get<boolean>("safetyBlockLinks"),
+  ]);
+
+  return {
+    blockedWords: [...new Set([...BUILTIN_BLOCKED_WORDS, ...parseWordList(words)])],
+    blockContactInfo: contact ?? true,
+    blockLinks: links ?? false,
+  };
+}
+
+const CHECKS: ((config: SafetyConfig) => SafetyCheck | null)[] = [
+  (config) => {
+    if (config.blockedWords.length === 0) return null;
+    const pattern = new RegExp(`\\b(?:${config.blockedWords.map(escapeRegExp).join("|")})\\b`, "i");
+    return (text) => {
+      const hit = pattern.exec(text);
+      return hit ? `blocked word "${hit[0].toLowerCase()}"` : null;
+    };
+  },
+  (config) => (config.blockContactInfo ? (text) => (EMAIL.test(text) ? "email address" : null) : null),
+  (config) => (config.blockContactInfo ? (text) => (PHONE.test(text) ? "phone number" : null) : null),
+  (config) => (config.blockLinks ? (text) => (LINK.test(text) ? "external link" : null) : null),
+];
+
+/**
+ * One puzzle build's view of the pipeline: `allows` screens a candidate and remembers why
+ * anything was turned down, and `flush` writes those reasons to the moderator log.
+ */
+export type SafetyScreen = {
+  allows: (kind: SafetyRejection["kind"], id: string, ...texts: string[]) => boolean;
+  flush: (dateKey: string, mode: GameMode) => Promise<void>;
+};
+
+export async function createSafetyScreen(): Promise<SafetyScreen> {
+  const config = await readSafetyConfig();
+  const checks = CHECKS.map((make) => make(config)).filter((c): c is SafetyCheck => !!c);
+  const rejections: SafetyRejection[] = [];
+
+  return {
+    allows(kind, id, ...texts) {
+      for (const text of texts) {
+        for (const check of checks) {
+          const reason = check(text);
+          if (reason) {
+            rejections.push({ kind, id, reason, at: new Date().toISOString() });
+            return false;
+          }
+        }
+      }
+      return true;
+    },
+
+    async flush(dateKey, mode) {
+      if (rejections.length === 0) return;
+
+      const key = kSafetyLog(dateKey, mode);
+      const entries = [...(await readSafetyLog(dateKey, mode)), ...rejections].slice(-MAX_LOGGED);
+      await redis.set(key, JSON.stringify(entries));
+      await redis.expire(key, LOG_TTL_SECONDS);
+    },
+  };
+}
+
+function kSafetyLog(dateKey: string, mode: GameMode) {
+  return `nts:safety:${dateKey}:${mode}`;
+}
+
+export async function readSafetyLog(dateKey: string, mode: GameMode): Promise<SafetyRejection[]> {
+  const raw = await redis.get(kSafetyLog(dateKey, mode));
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as SafetyRejection[]) : [];
+  } catch {
+    return [];
+  }
+}
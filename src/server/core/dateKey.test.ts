@@ -0,0 +1,68 @@
+// src/server/core/dateKey.test.ts
+import { afterEach, describe, expect, it } from "vitest";
+import { addDays, daysBetween, isDateKey, previousDateKey, utcDateKey } from "./dateKey";
+
+describe("isDateKey", () => {
+  it("accepts real calendar days", () => {
+    expect(isDateKey("2026-01-31")).toBe(true);
+    expect(isDateKey("2024-02-29")).toBe(true);
+  });
+
+  it("rejects malformed or impossible days", () => {
+    expect(isDateKey("2026-1-31")).toBe(false);
+    expect(isDateKey("2026-02-30")).toBe(false);
+    expect(isDateKey("2025-02-29")).toBe(false);
+    expect(isDateKey("2026-13-01")).toBe(false);
+    expect(isDateKey("2026-01-31T00:00")).toBe(false);
+    expect(isDateKey("")).toBe(false);
+  });
+});
+
+describe("addDays / previousDateKey", () => {
+  it("crosses month boundaries", () => {
+    expect(addDays("2026-01-31", 1)).toBe("2026-02-01");
+    expect(previousDateKey("2026-03-01")).toBe("2026-02-28");
+  });
+
+  it("crosses year boundaries", () => {
+    expect(addDays("2025-12-31", 1)).toBe("2026-01-01");
+    expect(previousDateKey("2026-01-01")).toBe("2025-12-31");
+  });
+
+  it("handles leap days", () => {
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDays("2024-02-29", 1)).toBe("2024-03-01");
+    expect(previousDateKey("2024-03-01")).toBe("2024-02-29");
+    expect(addDays("2024-02-29", 365)).toBe("2025-02-28");
+  });
+});
+
+describe("under a non-UTC server time zone", () => {
+  const originalTz = process.env.TZ;
+  afterEach(() => {
+    if (originalTz === undefined) delete process.env.TZ;
+    else process.env.TZ = originalTz;
+  });
+
+  it.each(["America/Los_Angeles", "Pacific/Kiritimati", "Pacific/Pago_Pago", "Europe/London"])(
+    "counts whole calendar days in %s",
+    (tz) => {
+      process.env.TZ = tz;
+
+      expect(daysBetween("2026-03-07", "2026-03-09")).toBe(2); // US DST starts 03-08
+      expect(daysBetween("2026-10-31", "2026-11-02")).toBe(2); // US DST ends 11-01
+      expect(daysBetween("2026-03-28", "2026-03-30")).toBe(2); // EU DST starts 03-29
+      expect(daysBetween("2025-12-31", "2026-01-01")).toBe(1);
+      expect(daysBetween("2026-01-02", "2026-01-01")).toBe(-1);
+      expect(daysBetween("2026-05-05", "2026-05-05")).toBe(0);
+
+      expect(addDays("2026-03-08", 1)).toBe("2026-03-09");
+      expect(previousDateKey("2026-11-02")).toBe("2026-11-01");
+    }
+  );
+
+  it("takes utcDateKey from the UTC calendar, not the local one", () => {
+    process.env.TZ = "Pacific/Kiritimati"; // UTC+14: already the next local day
+    expect(utcDateKey(new Date("2026-06-30T23:30:00Z"))).toBe("2026-06-30");
+  });
+});
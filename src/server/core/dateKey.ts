@@ -0,0 +1,40 @@
+// src/server/core/dateKey.ts
+
+// All dateKeys are YYYY-MM-DD strings.
+
+export function utcDateKey(d = new Date()): string {
+  const y = d.getUTCFullYear();
+  const m = String(d.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(d.getUTCDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+export function utcDateKeyOffset(daysOffset: number): string {
+  return utcDateKey(new Date(Date.now() + daysOffset * 24 * 60 * 60 * 1000));
+}
+
+// dateKeys name calendar days, not instants: arithmetic treats them as UTC midnights so the
+// result never depends on the server's or the player's time zone (or DST changes).
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isDateKey(s: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(s) && utcDateKey(new Date(`${s}T00:00:00Z`)) === s;
+}
+
+/** Days since 1970-01-01 for a dateKey. */
+export function dayNumber(dateKey: string): number {
+  return Math.floor(Date.parse(`${dateKey}T00:00:00Z`) / DAY_MS);
+}
+
+export function addDays(dateKey: string, days: number): string {
+  return utcDateKey(new Date((dayNumber(dateKey) + days) * DAY_MS));
+}
+
+export function previousDateKey(dateKey: string): string {
+  return addDays(dateKey, -1);
+}
+
+/** Whole days from `from` to `to`; negative when `to` is earlier. */
+export function daysBetween(from: string, to: string): number {
+  return dayNumber(to) - dayNumber(from);
+}
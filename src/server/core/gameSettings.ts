@@ -0,0 +1,32 @@
+// src/server/core/gameSettings.ts
+import { settings } from "@devvit/web/server";
+
+// Installer-editable values are declared under "settings.subreddit" in devvit.json;
+// these defaults apply until a moderator changes them.
+export type GameSettings = {
+  guessesPerPuzzle: number; // graded guesses per puzzle; typos and unknown subs are free
+  wrongGuessPenalty: number; // points taken off a win per wrong guess
+};
+
+const DEFAULTS: GameSettings = {
+  guessesPerPuzzle: 5,
+  wrongGuessPenalty: 10,
+};
+
+function clampInt(raw: unknown, min: number, max: number, fallback: number): number {
+  const n = Number(raw);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(n)));
+}
+
+export async function readGameSettings(): Promise<GameSettings> {
+  const [guesses, penalty] = await Promise.all([
+    settings.get<number>("guessesPerPuzzle"),
+    settings.get<number>("wrongGuessPenalty"),
+  ]);
+
+  return {
+    guessesPerPuzzle: clampInt(guesses, 1, 20, DEFAULTS.guessesPerPuzzle),
+    wrongGuessPenalty: clampInt(penalty, 0, 100, DEFAULTS.wrongGuessPenalty),
+  };
+}
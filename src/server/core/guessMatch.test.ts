@@ -0,0 +1,37 @@
+// src/server/core/guessMatch.test.ts
+import { describe, expect, it } from "vitest";
+import type { AttemptRecord } from "../../shared/api";
+import { countGuessesUsed, gradeGuess, usesGuess } from "./guessMatch";
+
+const noAliases = { aliases: [], related: [] };
+const near = (guess: string): AttemptRecord => ({ guess, stage: 1, verdict: "near" });
+
+describe("gradeGuess", () => {
+  it("grades typos and plurals of the answer as near", () => {
+    expect(gradeGuess("askredit", "AskReddit", noAliases)).toBe("near");
+    expect(gradeGuess("pic", "pics", noAliases)).toBe("near");
+  });
+});
+
+describe("usesGuess / countGuessesUsed", () => {
+  it("never charges for a sub that doesn't exist", () => {
+    expect(usesGuess("unknown", [near("a"), near("b"), near("c")])).toBe(false);
+  });
+
+  it("lets the first two near misses through free and charges the rest", () => {
+    expect(usesGuess("near", [])).toBe(false);
+    expect(usesGuess("near", [near("a")])).toBe(false);
+    expect(usesGuess("near", [near("a"), near("b")])).toBe(true);
+
+    expect(countGuessesUsed([near("a"), near("b"), near("c"), near("d")])).toBe(2);
+  });
+
+  it("charges wrong and related guesses", () => {
+    const attempts: AttemptRecord[] = [
+      { guess: "funny", stage: 1, verdict: "wrong" },
+      near("a"),
+      { guess: "aww", stage: 2, verdict: "related" },
+    ];
+    expect(countGuessesUsed(attempts)).toBe(2);
+  });
+});
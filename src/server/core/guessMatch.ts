@@ -0,0 +1,75 @@
+// src/server/core/guessMatch.ts
+import type { AttemptRecord, GuessVerdict } from "../../shared/api";
+import type { AnswerAliases } from "./aliases";
+
+function canonical(name: string): string {
+  return name.toLowerCase().replace(/_/g, "");
+}
+
+function singular(name: string): string {
+  if (name.endsWith("ies") && name.length > 4) return `${name.slice(0, -3)}y`;
+  if (name.endsWith("es") && name.length > 3) return name.slice(0, -2);
+  if (name.endsWith("s") && name.length > 2) return name.slice(0, -1);
+  return name;
+}
+
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j]! + 1, cur[j - 1]! + 1, prev[j - 1]! + cost);
+    }
+    prev = cur;
+  }
+  return prev[b.length]!;
+}
+
+// short names get less slack so "pics" doesn't match "pies"-style different subs too eagerly
+function nearMissThreshold(answer: string): number {
+  if (answer.length <= 4) return 1;
+  if (answer.length <= 10) return 2;
+  return 3;
+}
+
+/**
+ * Grades an already-normalized guess against the answer.
+ * - exact: same sub (ignoring case/underscores) or a moderator alias
+ * - near: typo within edit distance, or singular/plural of the answer (the caller downgrades
+ *   it to wrong when the guess is a real subreddit of its own)
+ * - related: on the answer's moderator-curated related list
+ */
+export function gradeGuess(guess: string, answer: string, aliases: AnswerAliases): GuessVerdict {
+  const g = canonical(guess);
+  const a = canonical(answer);
+  if (!g) return "wrong";
+
+  if (g === a) return "exact";
+  if (aliases.aliases.some((x) => canonical(x) === g)) return "exact";
+
+  if (singular(g) === singular(a)) return "near";
+  if (editDistance(g, a) <= nearMissThreshold(a)) return "near";
+
+  if (aliases.related.some((x) => canonical(x) === g)) return "related";
+  return "wrong";
+}
+
+// a couple of typos are free; after that a near miss costs a guess like any other, so the
+// "so close" hint can't be used to home in on the answer for nothing
+const FREE_NEAR_MISSES = 2;
+
+// made-up subs never spend one of the puzzle's guesses; `prior` are the attempts made before this one
+export function usesGuess(verdict: GuessVerdict, prior: AttemptRecord[]): boolean {
+  if (verdict === "unknown") return false;
+  if (verdict === "near") return prior.filter((a) => a.verdict === "near").length >= FREE_NEAR_MISSES;
+  return true;
+}
+
+export function countGuessesUsed(attempts: AttemptRecord[]): number {
+  return attempts.filter((a, i) => usesGuess(a.verdict, attempts.slice(0, i))).length;
+}
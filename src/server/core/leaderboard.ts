@@ -0,0 +1,173 @@
+// src/server/core/leaderboard.ts
+import { redis } from "@devvit/web/server";
+import type { GameMode, LeaderboardEntry, LeaderboardScope } from "../../shared/api";
+
+// Daily boards rank by points, then by solve time. Both are packed into one sorted-set score:
+// points * SOLVE_SLOTS + (SOLVE_SLOTS - 1 - seconds), so a faster solve wins a points tie.
+const SOLVE_SLOTS = 1_000_000;
+
+function kDailyBoard(mode: GameMode, dateKey: string) {
+  return `nts:lb:${mode}:daily:${dateKey}`;
+}
+function kDailyMeta(mode: GameMode, dateKey: string) {
+  return `nts:lb:${mode}:daily:${dateKey}:meta`; // userId -> { stageUsed, solveSeconds }
+}
+function kAllTimeBoard(mode: GameMode) {
+  return `nts:lb:${mode}:alltime`;
+}
+function kAllTimeSince(mode: GameMode) {
+  return `nts:lb:${mode}:alltime:since`; // dateKey of the first win the board counted
+}
+function kUsernames() {
+  return `nts:lb:usernames`; // userId -> username
+}
+
+type DailyMeta = {
+  stageUsed: 1 | 2 | 3;
+  solveSeconds: number;
+};
+
+function packDailyScore(points: number, solveSeconds: number): number {
+  const secs = Math.min(Math.max(0, Math.floor(solveSeconds)), SOLVE_SLOTS - 1);
+  return points * SOLVE_SLOTS + (SOLVE_SLOTS - 1 - secs);
+}
+
+function unpackDailyPoints(score: number): number {
+  return Math.floor(score / SOLVE_SLOTS);
+}
+
+function parseMeta(raw: string | undefined): DailyMeta | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as DailyMeta;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Records a win on the daily and all-time boards for a mode.
+ * Callers are expected to invoke this once per user/day/mode (the /guess award path already guarantees that).
+ */
+export async function recordWin(opts: {
+  userId: string;
+  username: string;
+  mode: GameMode;
+  dateKey: string;
+  points: number;
+  stageUsed: 1 | 2 | 3;
+  solveSeconds: number;
+}): Promise<void> {
+  const { userId, username, mode, dateKey, points, stageUsed, solveSeconds } = opts;
+
+  const dailyKey = kDailyBoard(mode, dateKey);
+  const metaKey = kDailyMeta(mode, dateKey);
+  const meta: DailyMeta = { stageUsed, solveSeconds: Math.max(0, Math.floor(solveSeconds)) };
+
+  await redis.zAdd(dailyKey, { member: userId, score: packDailyScore(points, solveSeconds) });
+  await redis.hSet(metaKey, { [userId]: JSON.stringify(meta) });
+  await redis.expire(dailyKey, 60 * 60 * 24 * 30);
+  await redis.expire(metaKey, 60 * 60 * 24 * 30);
+
+  await redis.zIncrBy(kAllTimeBoard(mode), userId, points);
+  await redis.set(kAllTimeSince(mode), dateKey, { nx: true });
+  await redis.hSet(kUsernames(), { [userId]: username });
+}
+
+async function lookupUsernames(userIds: string[]): Promise<string[]> {
+  if (userIds.length === 0) return [];
+  const names = await redis.hMGet(kUsernames(), userIds);
+  return userIds.map((id, i) => names[i] ?? id);
+}
+
+async function readDailyBoard(
+  mode: GameMode,
+  dateKey: string,
+  limit: number,
+  userId: string
+): Promise<{ entries: LeaderboardEntry[]; me: LeaderboardEntry | null }> {
+  const boardKey = kDailyBoard(mode, dateKey);
+  const metaKey = kDailyMeta(mode, dateKey);
+
+  const top = await redis.zRange(boardKey, 0, limit - 1, { by: "rank", reverse: true });
+  const ids = top.map((t) => t.member);
+  const [names, metas] = await Promise.all([
+    lookupUsernames(ids),
+    ids.length ? redis.hMGet(metaKey, ids) : Promise.resolve([] as (string | null)[]),
+  ]);
+
+  const entries: LeaderboardEntry[] = top.map((t, i) => {
+    const meta = parseMeta(metas[i] ?? undefined);
+    return {
+      rank: i + 1,
+      username: names[i]!,
+      points: unpackDailyPoints(t.score),
+      ...(meta ? { stageUsed: meta.stageUsed, solveSeconds: meta.solveSeconds } : {}),
+    };
+  });
+
+  let me: LeaderboardEntry | null = null;
+  const myScore = await redis.zScore(boardKey, userId);
+  if (myScore !== undefined) {
+    // zRank is ascending; flip it so rank 1 is the best score.
+    const ascRank = await redis.zRank(boardKey, userId);
+    const size = await redis.zCard(boardKey);
+    const meta = parseMeta(await redis.hGet(metaKey, userId));
+    const [username] = await lookupUsernames([userId]);
+    me = {
+      rank: ascRank === undefined ? 0 : size - ascRank,
+      username: username!,
+      points: unpackDailyPoints(myScore),
+      ...(meta ? { stageUsed: meta.stageUsed, solveSeconds: meta.solveSeconds } : {}),
+    };
+  }
+
+  return { entries, me };
+}
+
+// Points won before the board existed are in each player's score but not here, so the board
+// reports the day it started counting and the client labels it with that.
+async function readAllTimeBoard(
+  mode: GameMode,
+  limit: number,
+  userId: string
+): Promise<{ entries: LeaderboardEntry[]; me: LeaderboardEntry | null; since?: string }> {
+  const boardKey = kAllTimeBoard(mode);
+
+  const top = await redis.zRange(boardKey, 0, limit - 1, { by: "rank", reverse: true });
+  const names = await lookupUsernames(top.map((t) => t.member));
+
+  const entries: LeaderboardEntry[] = top.map((t, i) => ({
+    rank: i + 1,
+    username: names[i]!,
+    points: t.score,
+  }));
+
+  let me: LeaderboardEntry | null = null;
+  const myScore = await redis.zScore(boardKey, userId);
+  if (myScore !== undefined) {
+    const ascRank = await redis.zRank(boardKey, userId);
+    const size = await redis.zCard(boardKey);
+    const [username] = await lookupUsernames([userId]);
+    me = {
+      rank: ascRank === undefined ? 0 : size - ascRank,
+      username: username!,
+      points: myScore,
+    };
+  }
+
+  const since = await redis.get(kAllTimeSince(mode));
+  return { entries, me, ...(since ? { since } : {}) };
+}
+
+export async function readLeaderboard(opts: {
+  mode: GameMode;
+  dateKey: string;
+  scope: LeaderboardScope;
+  limit: number;
+  userId: string;
+}): Promise<{ entries: LeaderboardEntry[]; me: LeaderboardEntry | null; since?: string }> {
+  const { mode, dateKey, scope, limit, userId } = opts;
+  if (scope === "alltime") return readAllTimeBoard(mode, limit, userId);
+  return readDailyBoard(mode, dateKey, limit, userId);
+}
@@ -0,0 +1,88 @@
+// src/server/core/metrics.ts
+import { redis } from "@devvit/web/server";
+import type { AdminDayMetrics, DayResult, GameMode } from "../../shared/api";
+
+// Community-wide counters for the moderator dashboard, one hash per day and mode:
+//   nts:metrics:${dateKey}:${mode}   players, won1, won2, won3, lost, gaveup, points
+// Only live puzzles count; archive replays never reach these.
+
+const METRICS_TTL_SECONDS = 60 * 60 * 24 * 45; // the dashboard shows 30 days
+
+function kMetrics(dateKey: string, mode: GameMode) {
+  return `nts:metrics:${dateKey}:${mode}`;
+}
+
+async function bump(dateKey: string, mode: GameMode, field: string, by = 1): Promise<void> {
+  const key = kMetrics(dateKey, mode);
+  await redis.hIncrBy(key, field, by);
+  await redis.expire(key, METRICS_TTL_SECONDS);
+}
+
+export async function recordPlayerStarted(mode: GameMode, dateKey: string): Promise<void> {
+  await bump(dateKey, mode, "players");
+}
+
+export async function recordFinish(mode: GameMode, dateKey: string, result: DayResult): Promise<void> {
+  if (result.outcome === "won") await bump(dateKey, mode, `won${result.solvedStage ?? 3}`);
+  else await bump(dateKey, mode, result.outcome);
+  if (result.points > 0) await bump(dateKey, mode, "points", result.points);
+}
+
+function percent(part: number, whole: number): number {
+  return whole ? Math.round((part / whole) * 1000) / 10 : 0;
+}
+
+export type MetricCounts = Omit<
+  AdminDayMetrics,
+  "dateKey" | "finished" | "solveRate" | "stageSolveRates" | "giveUpRate" | "averageScore"
+> & { points: number };
+
+export async function readMetricCounts(mode: GameMode, dateKey: string): Promise<MetricCounts> {
+  const f = await redis.hGetAll(kMetrics(dateKey, mode));
+  const n = (field: string) => Number(f[field] ?? 0);
+  return {
+    players: n("players"),
+    solvedByStage: { 1: n("won1"), 2: n("won2"), 3: n("won3") },
+    lost: n("lost"),
+    gaveup: n("gaveup"),
+    points: n("points"),
+  };
+}
+
+/** Turns raw counts (one day's, or several days added up) into the dashboard's rates. */
+export function summarizeMetrics(counts: MetricCounts): Omit<AdminDayMetrics, "dateKey"> {
+  const { solvedByStage, lost, gaveup } = counts;
+  const solved = solvedByStage[1] + solvedByStage[2] + solvedByStage[3];
+  const finished = solved + lost + gaveup;
+
+  return {
+    // counting began before some players finished, so never show fewer players than finishers
+    players: Math.max(counts.players, finished),
+    finished,
+    solvedByStage,
+    lost,
+    gaveup,
+    solveRate: percent(solved, finished),
+    stageSolveRates: {
+      1: percent(solvedByStage[1], finished),
+      2: percent(solvedByStage[2], finished),
+      3: percent(solvedByStage[3], finished),
+    },
+    giveUpRate: percent(gaveup, finished),
+    averageScore: finished ? Math.round((counts.points / finished) * 10) / 10 : 0,
+  };
+}
+
+export function addMetricCounts(a: MetricCounts, b: MetricCounts): MetricCounts {
+  return {
+    players: a.players + b.players,
+    solvedByStage: {
+      1: a.solvedByStage[1] + b.solvedByStage[1],
+      2: a.solvedByStage[2] + b.solvedByStage[2],
+      3: a.solvedByStage[3] + b.solvedByStage[3],
+    },
+    lost: a.lost + b.lost,
+    gaveup: a.gaveup + b.gaveup,
+    points: a.points + b.points,
+  };
+}
@@ -0,0 +1,22 @@
+// src/server/core/moderator.ts
+import { context, reddit } from "@devvit/web/server";
+
+/**
+ * Whether the requesting user moderates the subreddit the app is installed in.
+ * Checked on the server for every admin request; the client only uses it to show or hide links.
+ */
+export async function isCurrentUserModerator(): Promise<boolean> {
+  const { subredditName } = context;
+  if (!subredditName) return false;
+
+  const username = await reddit.getCurrentUsername();
+  if (!username) return false;
+
+  try {
+    const mods = await reddit.getModerators({ subredditName, username }).all();
+    return mods.some((m) => m.username.toLowerCase() === username.toLowerCase());
+  } catch (error) {
+    console.error(`Moderator check failed for u/${username}:`, error);
+    return false;
+  }
+}
@@ -1,7 +1,70 @@
-import { reddit } from '@devvit/web/server';
+import { redis, reddit } from '@devvit/web/server';
 
-export const createPost = async () => {
+function kPostDateKey(postId: string) {
+  return `nts:post:${postId}:dateKey`;
+}
+function kDailyPost(dateKey: string) {
+  return `nts:dailyPost:${dateKey}`; // -> postId
+}
+
+export const createPost = async (title = 'name-that-sub') => {
   return await reddit.submitCustomPost({
-    title: 'name-that-sub',
+    title,
+  });
+};
+
+/** The puzzle day a post is bound to, or null for posts made before daily posts existed. */
+export const readPostDateKey = async (postId: string | undefined) => {
+  if (!postId) return null;
+  return (await redis.get(kPostDateKey(postId))) ?? null;
+};
+
+export const readDailyPostId = async (dateKey: string) => {
+  const id = await redis.get(kDailyPost(dateKey));
+  return id && id !== PENDING ? id : null;
+};
+
+// placeholder held in the dailyPost key while its post is being submitted
+const PENDING = 'pending';
+const CLAIM_SECONDS = 60; // a crashed creation frees the day again after this
+const CLAIM_WAIT_MS = 500;
+const CLAIM_WAIT_ATTEMPTS = 10;
+
+async function waitForDailyPost(dateKey: string): Promise<string> {
+  for (let i = 0; i < CLAIM_WAIT_ATTEMPTS; i++) {
+    await new Promise((resolve) => setTimeout(resolve, CLAIM_WAIT_MS));
+    const id = await readDailyPostId(dateKey);
+    if (id) return id;
+  }
+  throw new Error(`Daily post for ${dateKey} is still being created`);
+}
+
+/**
+ * Creates the post for a puzzle day and binds it to that dateKey.
+ * Idempotent: if the day already has a post, that post's id is returned instead.
+ * The cron, the install trigger and the menu item can race here, so the day is claimed with
+ * SET NX before submitting; whoever loses waits for the winner's post.
+ */
+export const createDailyPost = async (dateKey: string) => {
+  const key = kDailyPost(dateKey);
+  const claimed = await redis.set(key, PENDING, {
+    nx: true,
+    expiration: new Date(Date.now() + CLAIM_SECONDS * 1000),
   });
+
+  if (!claimed) {
+    const existing = await redis.get(key);
+    if (existing && existing !== PENDING) return { id: existing, created: false };
+    return { id: await waitForDailyPost(dateKey), created: false };
+  }
+
+  try {
+    const post = await createPost(`Name That Sub — ${dateKey}`);
+    await redis.set(kPostDateKey(post.id), dateKey);
+    await redis.set(key, post.id); // replaces the claim and drops its expiry
+    return { id: post.id, created: true };
+  } catch (error) {
+    await redis.del(key);
+    throw error;
+  }
 };
@@ -0,0 +1,115 @@
+// src/server/core/pregenerate.ts
+import { redis } from "@devvit/web/server";
+import { GAME_MODES, type GameMode } from "../../shared/api";
+import { utcDateKeyOffset } from "./dateKey";
+import { buildDailyPuzzle } from "./puzzle";
+
+// today + tomorrow (UTC) covers every client-local dateKey that resolveDateKey accepts by the time it's needed
+const DAY_OFFSETS = [0, 1];
+const ATTEMPTS_PER_RUN = 3;
+const RETRY_DELAY_MS = 2000; // doubled after each failed attempt within a run
+
+export type PuzzleGenerationStatus = {
+  status: "ready" | "failed";
+  attempts: number; // total across scheduler runs
+  subreddit?: string;
+  error?: string;
+  updatedAt: string; // ISO timestamp
+};
+
+export type PregenerateResult = {
+  dateKey: string;
+  mode: GameMode;
+  status: PuzzleGenerationStatus;
+};
+
+function kGenStatus(dateKey: string) {
+  return `nts:gen:${dateKey}`; // mode -> PuzzleGenerationStatus JSON
+}
+
+export function pregenerateDateKeys(): string[] {
+  return DAY_OFFSETS.map((d) => utcDateKeyOffset(d));
+}
+
+export async function readGenerationStatus(
+  dateKey: string
+): Promise<Partial<Record<GameMode, PuzzleGenerationStatus>>> {
+  const raw = await redis.hGetAll(kGenStatus(dateKey));
+  const out: Partial<Record<GameMode, PuzzleGenerationStatus>> = {};
+  for (const m of GAME_MODES) {
+    const v = raw[m];
+    if (!v) continue;
+    try {
+      out[m] = JSON.parse(v) as PuzzleGenerationStatus;
+    } catch {
+      // ignore corrupt entries; the next run overwrites them
+    }
+  }
+  return out;
+}
+
+async function writeGenerationStatus(
+  dateKey: string,
+  mode: GameMode,
+  status: PuzzleGenerationStatus
+): Promise<void> {
+  const key = kGenStatus(dateKey);
+  await redis.hSet(key, { [mode]: JSON.stringify(status) });
+  await redis.expire(key, 60 * 60 * 24 * 7);
+}
+
+// The first attempt ever uses the plain dateKey seed, the same one a player's request would.
+// Every retry, in this run or a later one, salts it so it doesn't pick the same failing sub/post.
+function retrySeedKey(dateKey: string, attempt: number): string {
+  return attempt === 1 ? dateKey : `${dateKey}:retry${attempt}`;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+async function pregenerateOne(dateKey: string, mode: GameMode): Promise<PuzzleGenerationStatus> {
+  const prev = (await readGenerationStatus(dateKey))[mode];
+  let attempts = prev?.attempts ?? 0;
+  let lastError = "";
+
+  for (let i = 0; i < ATTEMPTS_PER_RUN; i++) {
+    if (i > 0) await sleep(RETRY_DELAY_MS * 2 ** (i - 1));
+    attempts++;
+    try {
+      const puzzle = await buildDailyPuzzle(dateKey, mode, retrySeedKey(dateKey, attempts));
+      const status: PuzzleGenerationStatus = {
+        status: "ready",
+        attempts,
+        subreddit: puzzle.subreddit,
+        updatedAt: new Date().toISOString(),
+      };
+      await writeGenerationStatus(dateKey, mode, status);
+      return status;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      console.error(`Pregenerate ${dateKey}/${mode} attempt ${attempts} failed: ${lastError}`);
+    }
+  }
+
+  const status: PuzzleGenerationStatus = {
+    status: "failed",
+    attempts,
+    error: lastError,
+    updatedAt: new Date().toISOString(),
+  };
+  await writeGenerationStatus(dateKey, mode, status);
+  return status;
+}
+
+/**
+ * Builds (or confirms the cache for) every mode of the upcoming dateKeys so the first
+ * player of the day doesn't pay for the Reddit API calls. Already-cached puzzles are cheap no-ops.
+ */
+export async function pregeneratePuzzles(): Promise<PregenerateResult[]> {
+  const results: PregenerateResult[] = [];
+  for (const dateKey of pregenerateDateKeys()) {
+    for (const mode of GAME_MODES) {
+      results.push({ dateKey, mode, status: await pregenerateOne(dateKey, mode) });
+    }
+  }
+  return results;
+}
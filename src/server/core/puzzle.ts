@@ -0,0 +1,610 @@
+// src/server/core/puzzle.ts
+import { redis, reddit, type Comment, type Post } from "@devvit/web/server";
+import type { ClueStage, DailyPuzzle, GameMode, PuzzleView } from "../../shared/api";
+import { addToArchive } from "./archive";
+import { createSafetyScreen, type SafetyScreen } from "./contentSafety";
+import { redactClue } from "./redact";
+import { indexSubreddits } from "./subredditIndex";
+import { isBlocked, readSubredditLists, type SubredditLists } from "./subredditLists";
+
+export function seedFromString(str: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+export function pickIndex(len: number, seed: number): number {
+  let x = seed || 123456789;
+  x ^= x << 13;
+  x ^= x >> 17;
+  x ^= x << 5;
+  return Math.abs(x) % len;
+}
+
+// Fisher-Yates driven by pickIndex, so the same seed always gives the same order
+function seededShuffle<T>(items: T[], seed: number): T[] {
+  const out = items.slice();
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = pickIndex(i + 1, seedFromString(`${seed}:${i}`));
+    [out[i], out[j]] = [out[j]!, out[i]!];
+  }
+  return out;
+}
+
+function minSubsForMode(mode: GameMode): number {
+  if (mode === "easy" || mode === "choice") return 1_000_000;
+  if (mode === "medium" || mode === "thread" || mode === "image") return 10_000;
+  return 0;
+}
+
+function getSubscriberCount(info: any): number {
+  const candidates = [
+    info?.subscribers,
+    info?.subscriberCount,
+    info?.subscriber_count,
+    info?.subscribersCount,
+    info?.communitySize,
+  ];
+  for (const v of candidates) {
+    if (typeof v === "number" && Number.isFinite(v)) return v;
+  }
+  return 0;
+}
+
+function isNsfwSub(info: any): boolean {
+  const candidates = [info?.nsfw, info?.isNsfw, info?.over18, info?.isOver18, info?.over_18];
+  return candidates.some((v) => v === true);
+}
+
+function getPostSubredditName(post: any): string | null {
+  return post?.subredditName ?? post?.subreddit?.name ?? post?.subreddit ?? null;
+}
+
+// The webview only loads Reddit-hosted media, so image puzzles stick to Reddit's own image hosts.
+const IMAGE_HOSTS = ["i.redd.it", "preview.redd.it"];
+
+function imageUrlOf(post: Post): string | null {
+  if (post.nsfw || post.spoiler) return null;
+  try {
+    const url = new URL(post.url ?? "");
+    if (!IMAGE_HOSTS.includes(url.hostname)) return null;
+    return /\.(jpe?g|png|gif|webp)$/i.test(url.pathname) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// stage 1 of an image puzzle may only ever send this small preview, never the full image
+function thumbnailUrlOf(post: Post): string | null {
+  const url = post.thumbnail?.url;
+  return url?.startsWith("https://") ? url : null;
+}
+
+function kPuzzle(dateKey: string, mode: GameMode) {
+  return `nts:puzzle:${dateKey}:${mode}`;
+}
+
+// cache-only read; never triggers generation
+export async function readCachedPuzzle(dateKey: string, mode: GameMode): Promise<DailyPuzzle | null> {
+  const cached = await redis.get(kPuzzle(dateKey, mode));
+  return cached ? (JSON.parse(cached) as DailyPuzzle) : null;
+}
+
+// -------- subreddit selection (moderator allowlist, else API-driven minus blocklist) --------
+// recent r/all posts whose sub isn't blocked for this mode
+async function sampleAllPosts(lists: SubredditLists): Promise<{ post: Post; sub: string }[]> {
+  let posts: Post[] = [];
+  try {
+    posts = await reddit.getNewPosts({ subredditName: "all", limit: 120, pageSize: 120 }).all();
+  } catch {
+    posts = await reddit.getHotPosts({ subredditName: "all", limit: 120, pageSize: 120 }).all();
+  }
+
+  const usable = posts
+    .map((p) => ({ post: p, sub: getPostSubredditName(p) }))
+    .filter((x): x is { post: Post; sub: string } => !!x.sub && !isBlocked(lists, x.sub));
+
+  // only SFW subs that aren't blocked feed guess autocomplete
+  await indexSubreddits(usable.filter((x) => !x.post.nsfw).map((x) => x.sub));
+  return usable;
+}
+
+type SubredditPick = {
+  subreddit: string;
+  sample: string[]; // the other usable subs seen while picking; choice mode draws decoys from it
+};
+
+async function pickSubredditForMode(dateKey: string, mode: GameMode): Promise<SubredditPick> {
+  const minSubs = minSubsForMode(mode);
+  const lists = await readSubredditLists(mode);
+
+  // mode is part of seed so each mode picks different subs
+  const baseSeed = seedFromString(`${dateKey}:${mode}:subpick`);
+
+  // a moderator allowlist is used exclusively (mods vetted it, so no NSFW/size checks)
+  const allowed = lists.allow.filter((sub) => !isBlocked(lists, sub));
+  if (allowed.length > 0) {
+    const subreddit = allowed[pickIndex(allowed.length, baseSeed)]!;
+    return { subreddit, sample: allowed.filter((s) => s !== subreddit) };
+  }
+
+  const usable = await sampleAllPosts(lists);
+  const withSample = (subreddit: string): SubredditPick => ({
+    subreddit,
+    sample: [...new Set(usable.map((x) => x.sub))].filter((s) => s !== subreddit),
+  });
+
+  const candidates = usable
+    // image mode only considers subs seen posting an image, so the sub is likely to have more
+    .filter((x) => mode !== "image" || (!!imageUrlOf(x.post) && !!thumbnailUrlOf(x.post)));
+
+  if (candidates.length === 0) return withSample("all");
+
+  const tried = new Set<string>();
+
+  for (let i = 0; i < Math.min(45, candidates.length); i++) {
+    const idx = pickIndex(candidates.length, seedFromString(`${baseSeed}:${i}`));
+    const sub = candidates[idx]!.sub;
+    if (tried.has(sub)) continue;
+    tried.add(sub);
+
+    try {
+      const info = await reddit.getSubredditInfoByName(sub);
+      if (isNsfwSub(info)) continue;
+
+      const subs = getSubscriberCount(info);
+
+      // lenient if subscriber count unknown
+      if (subs === 0 || subs >= minSubs) return withSample(sub);
+    } catch {
+      continue;
+    }
+  }
+
+  return withSample(candidates[pickIndex(candidates.length, baseSeed)]!.sub);
+}
+
+// Choice mode decoys: sample subs of a similar size to the answer, padded with any other
+// safe ones when too few are close enough. A short allowlist can't supply three on its own,
+// so the rest then come from r/all.
+const CHOICE_DECOYS = 3;
+const DECOY_LOOKUPS = 15;
+const DECOY_SIZE_RATIO = 10;
+
+async function pickDecoys(dateKey: string, answer: string, sample: string[]): Promise<string[]> {
+  const answerSize = await reddit
+    .getSubredditInfoByName(answer)
+    .then(getSubscriberCount)
+    .catch(() => 0);
+
+  const similar: string[] = [];
+  const others: string[] = [];
+  const seed = seedFromString(`${dateKey}:choice:${answer}:decoys`);
+
+  const consider = async (subs: string[]) => {
+    const taken = new Set([answer, ...similar, ...others].map((s) => s.toLowerCase()));
+    const shuffled = seededShuffle(subs.filter((s) => !taken.has(s.toLowerCase())), seed);
+
+    for (const sub of shuffled.slice(0, DECOY_LOOKUPS)) {
+      if (similar.length >= CHOICE_DECOYS) break;
+      try {
+        const info = await reddit.getSubredditInfoByName(sub);
+        if (isNsfwSub(info)) continue;
+
+        const size = getSubscriberCount(info);
+        const ratio = answerSize && size ? Math.max(size, answerSize) / Math.min(size, answerSize) : Infinity;
+        (ratio <= DECOY_SIZE_RATIO ? similar : others).push(sub);
+      } catch {
+        continue;
+      }
+    }
+  };
+
+  await consider(sample);
+  if (similar.length + others.length < CHOICE_DECOYS) {
+    const all = await sampleAllPosts(await readSubredditLists("choice"));
+    await consider([...new Set(all.map((x) => x.sub))]);
+  }
+
+  const decoys = [...similar, ...others].slice(0, CHOICE_DECOYS);
+  if (decoys.length < CHOICE_DECOYS) throw new Error(`Only ${decoys.length} decoys found for r/${answer}`);
+  return decoys;
+}
+
+async function fetchSubredditPosts(subreddit: string): Promise<Post[]> {
+  try {
+    return await reddit.getNewPosts({ subredditName: subreddit, limit: 50, pageSize: 50 }).all();
+  } catch {
+    return await reddit.getHotPosts({ subredditName: subreddit, limit: 50, pageSize: 50 }).all();
+  }
+}
+
+type CandidateComment = { id: string; body: string };
+
+// comments that read as clues: substantial, and not naming the sub or coming from a bot
+function usableComments(comments: Comment[], subreddit: string): CandidateComment[] {
+  return comments
+    .map((c) => ({ id: c.id as string, body: (c.body ?? "").toString().trim() }))
+    .filter((c) => {
+      if (!c.body) return false;
+      if (c.body === "[deleted]" || c.body === "[removed]") return false;
+      if (c.body.length < 25) return false;
+
+      const lower = c.body.toLowerCase();
+      if (lower.includes(`r/${subreddit.toLowerCase()}`)) return false;
+      if (lower.includes("this sub") || lower.includes("this subreddit")) return false;
+      if (lower.includes("i am a bot") || lower.includes("automod")) return false;
+      return true;
+    });
+}
+
+// the item at `start`, or the next one after it (wrapping around) that passes `accept`
+function pickFrom<T>(items: T[], start: number, accept: (item: T) => boolean): T | null {
+  for (let i = 0; i < items.length; i++) {
+    const item = items[(start + i) % items.length]!;
+    if (accept(item)) return item;
+  }
+  return null;
+}
+
+// unsafe posts fall back to the next post, so only a handful are ever fetched
+const SINGLE_POSTS_TO_TRY = 8;
+
+async function buildSinglePuzzle(
+  dateKey: string,
+  mode: GameMode,
+  subreddit: string,
+  posts: Post[],
+  safety: SafetyScreen
+): Promise<DailyPuzzle> {
+  const start = pickIndex(posts.length, seedFromString(`${dateKey}:${mode}:${subreddit}:post`));
+
+  for (let i = 0; i < Math.min(SINGLE_POSTS_TO_TRY, posts.length); i++) {
+    const post = posts[(start + i) % posts.length]!;
+
+    const postId: string = post.id;
+    const postTitle: string = post.title ?? "";
+    const postBody: string = (post.body ?? "").toString();
+    if (!safety.allows("post", postId, postTitle, postBody)) continue;
+
+    const comments = await reddit
+      .getComments({ postId: postId as `t3_${string}`, limit: 200, pageSize: 100 })
+      .all();
+
+    const usable = usableComments(comments, subreddit);
+
+    const pool = usable.length
+      ? usable.slice(0, 60)
+      : comments
+          .map((c) => ({ id: c.id as string, body: (c.body ?? "").toString().trim() }))
+          .filter((c) => c.body && c.body !== "[deleted]" && c.body !== "[removed]")
+          .slice(0, 60);
+
+    const comment = pickFrom(
+      pool,
+      pickIndex(pool.length, seedFromString(`${dateKey}:${mode}:${subreddit}:comment`)),
+      (c) => safety.allows("comment", c.id, c.body)
+    );
+    if (!comment) continue;
+
+    return {
+      dateKey,
+      mode,
+      subreddit,
+      postId,
+      postTitle,
+      postBody,
+      commentId: comment.id,
+      commentBody: comment.body,
+    };
+  }
+
+  throw new Error(`No safe, usable comments found in r/${subreddit}`);
+}
+
+// Thread mode: one short comment from each of several different posts
+const THREAD_STAGE1_COMMENTS = 3;
+const THREAD_MAX_COMMENTS = 6;
+const THREAD_MAX_COMMENT_LENGTH = 240;
+const THREAD_POSTS_TO_SCAN = 15;
+
+async function pickThreadComments(
+  dateKey: string,
+  subreddit: string,
+  posts: Post[],
+  safety: SafetyScreen
+): Promise<{ post: Post; comment: CandidateComment }[]> {
+  // seeded walk over the posts so the same day always scans them in the same order
+  const order = seededShuffle(posts, seedFromString(`${dateKey}:thread:${subreddit}:posts`));
+
+  const picked: { post: Post; comment: CandidateComment }[] = [];
+  for (const post of order.slice(0, THREAD_POSTS_TO_SCAN)) {
+    if (picked.length >= THREAD_MAX_COMMENTS) break;
+    if (!safety.allows("post", post.id, post.title ?? "")) continue;
+    try {
+      const comments = await reddit
+        .getComments({ postId: post.id, limit: 100, pageSize: 100 })
+        .all();
+      const short = usableComments(comments, subreddit)
+        .filter((c) => c.body.length <= THREAD_MAX_COMMENT_LENGTH)
+        .slice(0, 60);
+      if (short.length === 0) continue;
+
+      const comment = pickFrom(
+        short,
+        pickIndex(short.length, seedFromString(`${dateKey}:thread:${post.id}:comment`)),
+        (c) => safety.allows("comment", c.id, c.body)
+      );
+      if (comment) picked.push({ post, comment });
+    } catch {
+      continue;
+    }
+  }
+  return picked;
+}
+
+async function buildThreadPuzzle(
+  dateKey: string,
+  subreddit: string,
+  posts: Post[],
+  safety: SafetyScreen
+): Promise<DailyPuzzle> {
+  const picked = await pickThreadComments(dateKey, subreddit, posts, safety);
+  if (picked.length < THREAD_STAGE1_COMMENTS) {
+    throw new Error(`Only ${picked.length} usable thread comments in r/${subreddit}`);
+  }
+
+  // the first comment's post supplies the title clue
+  const first = picked[0]!;
+  return {
+    dateKey,
+    mode: "thread",
+    subreddit,
+    postId: first.post.id,
+    postTitle: first.post.title ?? "",
+    postBody: (first.post.body ?? "").toString(),
+    commentId: first.comment.id,
+    commentBody: first.comment.body,
+    threadComments: picked.map(({ post, comment }) => ({
+      id: comment.id,
+      postId: post.id,
+      body: comment.body,
+    })),
+  };
+}
+
+function buildImagePuzzle(
+  dateKey: string,
+  subreddit: string,
+  posts: Post[],
+  safety: SafetyScreen
+): DailyPuzzle {
+  const images = posts
+    .map((post) => ({ post, imageUrl: imageUrlOf(post), thumbnailUrl: thumbnailUrlOf(post) }))
+    .filter((x): x is { post: Post; imageUrl: string; thumbnailUrl: string } => !!x.imageUrl && !!x.thumbnailUrl);
+  if (images.length === 0) throw new Error(`No image posts found for r/${subreddit}`);
+
+  const picked = pickFrom(
+    images,
+    pickIndex(images.length, seedFromString(`${dateKey}:image:${subreddit}:post`)),
+    ({ post }) => safety.allows("post", post.id, post.title ?? "", post.body ?? "")
+  );
+  if (!picked) throw new Error(`No safe image posts found for r/${subreddit}`);
+
+  const { post, imageUrl, thumbnailUrl } = picked;
+
+  return {
+    dateKey,
+    mode: "image",
+    subreddit,
+    postId: post.id,
+    postTitle: post.title ?? "",
+    postBody: (post.body ?? "").toString(),
+    commentId: "",
+    commentBody: "",
+    media: { imageUrl, thumbnailUrl },
+  };
+}
+
+/**
+ * Picks and builds a puzzle for `dateKey` without caching it. Every seed is derived from
+ * `seedKey` (normally the dateKey itself), so a different seedKey gives a different puzzle
+ * for the same day.
+ */
+export async function generatePuzzle(dateKey: string, mode: GameMode, seedKey = dateKey): Promise<DailyPuzzle> {
+  const { subreddit, sample } = await pickSubredditForMode(seedKey, mode);
+  await indexSubreddits([subreddit]);
+
+  const posts = await fetchSubredditPosts(subreddit);
+  if (posts.length === 0) throw new Error(`No posts found for r/${subreddit}`);
+
+  // rejections are logged for moderators whether or not a safe clue turned up
+  const safety = await createSafetyScreen();
+  let puzzle: DailyPuzzle;
+  try {
+    if (mode === "thread") puzzle = await buildThreadPuzzle(seedKey, subreddit, posts, safety);
+    else if (mode === "image") puzzle = buildImagePuzzle(seedKey, subreddit, posts, safety);
+    else puzzle = await buildSinglePuzzle(seedKey, mode, subreddit, posts, safety);
+  } finally {
+    await safety.flush(dateKey, mode);
+  }
+
+  if (mode === "choice") {
+    const decoys = await pickDecoys(seedKey, subreddit, sample);
+    puzzle.choices = seededShuffle([subreddit, ...decoys], seedFromString(`${seedKey}:choice:order`));
+  }
+
+  return { ...puzzle, dateKey };
+}
+
+// `seedKey` only matters on a cache miss; see generatePuzzle
+export async function buildDailyPuzzle(dateKey: string, mode: GameMode, seedKey = dateKey): Promise<DailyPuzzle> {
+  const cacheKey = kPuzzle(dateKey, mode);
+  const cached = await redis.get(cacheKey);
+  if (cached) return JSON.parse(cached) as DailyPuzzle;
+
+  const puzzle = await generatePuzzle(dateKey, mode, seedKey);
+  await storePuzzle(puzzle);
+  return puzzle;
+}
+
+// kept forever: daily posts stay playable, so their puzzle must not be regenerated
+export async function storePuzzle(puzzle: DailyPuzzle): Promise<void> {
+  await redis.set(kPuzzle(puzzle.dateKey, puzzle.mode), JSON.stringify(puzzle));
+  await addToArchive(puzzle.mode, puzzle.dateKey);
+}
+
+// -------- hand-authored puzzles --------
+// reddit.com/r/<sub>/comments/<post>/<slug>/<comment>, .../comments/<post>/comment/<comment>, redd.it/<post>
+export function parseRedditUrl(raw: string): { postId: `t3_${string}`; commentId?: `t1_${string}` } | null {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return null;
+  }
+
+  const segments = url.pathname.split("/").filter(Boolean);
+  if (url.hostname === "redd.it" && segments[0]) return { postId: `t3_${segments[0]}` };
+  if (!/(^|\.)reddit\.com$/.test(url.hostname)) return null;
+
+  const at = segments.indexOf("comments");
+  const post = at >= 0 ? segments[at + 1] : undefined;
+  if (!post) return null;
+
+  // the comment id follows either the title slug or the literal "comment" segment
+  const comment = segments[at + 3];
+  return { postId: `t3_${post}`, ...(comment ? { commentId: `t1_${comment}` as const } : {}) };
+}
+
+/**
+ * Builds a `mode` puzzle around a moderator-chosen post or comment. The chosen clue skips the
+ * safety screen (a moderator picked it); anything filled in around it, like the rest of a
+ * thread or the choice decoys, is picked the usual way.
+ */
+export async function buildPuzzleFromUrl(dateKey: string, mode: GameMode, url: string): Promise<DailyPuzzle> {
+  const ref = parseRedditUrl(url);
+  if (!ref) throw new Error("That doesn't look like a Reddit post or comment link.");
+
+  const post = await reddit.getPostById(ref.postId);
+  const subreddit = post.subredditName;
+  if (post.nsfw) throw new Error("That post is marked NSFW.");
+  await indexSubreddits([subreddit]);
+
+  const seedKey = `${dateKey}:authored:${post.id}`;
+  const base = {
+    dateKey,
+    mode,
+    subreddit,
+    postId: post.id as string,
+    postTitle: post.title ?? "",
+    postBody: (post.body ?? "").toString(),
+  };
+
+  if (mode === "image") {
+    const imageUrl = imageUrlOf(post);
+    if (!imageUrl) throw new Error("Image puzzles need a post with a Reddit-hosted image.");
+    const thumbnailUrl = thumbnailUrlOf(post);
+    if (!thumbnailUrl) throw new Error("That image post has no preview to use as the blurred first clue.");
+    return {
+      ...base,
+      commentId: "",
+      commentBody: "",
+      media: { imageUrl, thumbnailUrl },
+    };
+  }
+
+  let comment: CandidateComment;
+  if (ref.commentId) {
+    const c = await reddit.getCommentById(ref.commentId);
+    comment = { id: c.id, body: (c.body ?? "").toString().trim() };
+  } else {
+    const comments = await reddit.getComments({ postId: post.id, limit: 200, pageSize: 100 }).all();
+    const pool = usableComments(comments, subreddit).slice(0, 60);
+    const picked = pool[pickIndex(pool.length, seedFromString(`${seedKey}:comment`))];
+    if (!picked) throw new Error("No usable comments on that post; link a comment instead.");
+    comment = picked;
+  }
+  if (!comment.body) throw new Error("That comment has no text.");
+
+  const puzzle: DailyPuzzle = { ...base, commentId: comment.id, commentBody: comment.body };
+  if (mode !== "thread" && mode !== "choice") return puzzle;
+
+  const safety = await createSafetyScreen();
+  try {
+    if (mode === "thread") {
+      const others = (await fetchSubredditPosts(subreddit)).filter((p) => p.id !== post.id);
+      const picked = await pickThreadComments(seedKey, subreddit, others, safety);
+      if (picked.length < THREAD_STAGE1_COMMENTS - 1) {
+        throw new Error(`Not enough other usable comments in r/${subreddit} for a thread puzzle.`);
+      }
+      puzzle.threadComments = [
+        { id: comment.id, postId: post.id, body: comment.body },
+        ...picked
+          .slice(0, THREAD_MAX_COMMENTS - 1)
+          .map((x) => ({ id: x.comment.id, postId: x.post.id, body: x.comment.body })),
+      ];
+    } else {
+      const sample = [...new Set((await sampleAllPosts(await readSubredditLists(mode))).map((x) => x.sub))];
+      const decoys = await pickDecoys(seedKey, subreddit, sample);
+      puzzle.choices = seededShuffle([subreddit, ...decoys], seedFromString(`${seedKey}:choice:order`));
+    }
+  } finally {
+    await safety.flush(dateKey, mode);
+  }
+  return puzzle;
+}
+
+/**
+ * Strips a puzzle down to the clues revealed at `stage`; finished puzzles show everything.
+ * Clue text is redacted here rather than when the puzzle is built, so cached puzzles get it too.
+ */
+export function toPuzzleView(puzzle: DailyPuzzle, stage: ClueStage, completed: boolean): PuzzleView {
+  const shown: ClueStage = completed ? 3 : stage;
+  const redact = (text: string) => redactClue(text, puzzle.subreddit);
+  if (puzzle.threadComments) {
+    const count = shown >= 2 ? THREAD_MAX_COMMENTS : THREAD_STAGE1_COMMENTS;
+    return {
+      dateKey: puzzle.dateKey,
+      mode: puzzle.mode,
+      stage: shown,
+      commentBody: redact(puzzle.commentBody),
+      threadComments: puzzle.threadComments.slice(0, count).map((c) => redact(c.body)),
+      ...(shown >= 3 ? { postTitle: redact(puzzle.postTitle) } : {}),
+      ...(completed ? { answer: puzzle.subreddit } : {}),
+    };
+  }
+
+  if (puzzle.media) {
+    const { imageUrl, thumbnailUrl } = puzzle.media;
+    return {
+      dateKey: puzzle.dateKey,
+      mode: puzzle.mode,
+      stage: shown,
+      commentBody: "",
+      // stage 1 sends only the small thumbnail, which the client blurs and crops; a puzzle cached
+      // without one shows no image until stage 2, since CSS blur can't hide the full file
+      ...(shown >= 2
+        ? { media: { url: imageUrl, blurred: false } }
+        : thumbnailUrl
+          ? { media: { url: thumbnailUrl, blurred: true } }
+          : {}),
+      ...(shown >= 3 ? { postTitle: redact(puzzle.postTitle) } : {}),
+      ...(completed ? { answer: puzzle.subreddit } : {}),
+    };
+  }
+
+  return {
+    dateKey: puzzle.dateKey,
+    mode: puzzle.mode,
+    stage: shown,
+    commentBody: redact(puzzle.commentBody),
+    ...(puzzle.choices ? { choices: puzzle.choices } : {}),
+    ...(shown >= 2 ? { postBody: redact(puzzle.postBody) } : {}),
+    ...(shown >= 3 ? { postTitle: redact(puzzle.postTitle) } : {}),
+    ...(completed ? { answer: puzzle.subreddit } : {}),
+  };
+}
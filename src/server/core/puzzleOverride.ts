@@ -0,0 +1,101 @@
+// src/server/core/puzzleOverride.ts
+import { redis } from "@devvit/web/server";
+import type { DailyPuzzle, GameMode } from "../../shared/api";
+import { buildPuzzleFromUrl, generatePuzzle, readCachedPuzzle, storePuzzle } from "./puzzle";
+
+// Moderators can swap out a day's puzzle. The replaced one is kept under its version number
+// so players who already finished it keep seeing the clues and answer they actually played.
+
+const AUDIT_LOG_SIZE = 100;
+
+export type PuzzleOverrideAction = "reroll" | "author";
+
+export type PuzzleAuditEntry = {
+  at: string; // ISO timestamp
+  moderator: string;
+  action: PuzzleOverrideAction;
+  dateKey: string;
+  mode: GameMode;
+  from: string | null; // replaced answer, null if the day hadn't been generated yet
+  to: string;
+  version: number;
+  source?: string; // the link a hand-authored puzzle was built from
+};
+
+function kPuzzleVersion(dateKey: string, mode: GameMode, version: number) {
+  return `nts:puzzle:${dateKey}:${mode}:v${version}`; // a replaced puzzle, never expires
+}
+function kAuditLog() {
+  return "nts:audit:puzzles"; // PuzzleAuditEntry JSON members, scored by epoch ms
+}
+
+export async function readPuzzleVersion(
+  dateKey: string,
+  mode: GameMode,
+  version: number
+): Promise<DailyPuzzle | null> {
+  const current = await readCachedPuzzle(dateKey, mode);
+  if (current && (current.version ?? 0) === version) return current;
+
+  const raw = await redis.get(kPuzzleVersion(dateKey, mode, version));
+  return raw ? (JSON.parse(raw) as DailyPuzzle) : null;
+}
+
+async function replacePuzzle(
+  next: DailyPuzzle,
+  audit: { moderator: string; action: PuzzleOverrideAction; source?: string }
+): Promise<DailyPuzzle> {
+  const current = await readCachedPuzzle(next.dateKey, next.mode);
+  const version = (current?.version ?? 0) + 1;
+
+  if (current) {
+    await redis.set(kPuzzleVersion(next.dateKey, next.mode, current.version ?? 0), JSON.stringify(current));
+  }
+  const stored: DailyPuzzle = { ...next, version };
+  await storePuzzle(stored);
+
+  const entry: PuzzleAuditEntry = {
+    at: new Date().toISOString(),
+    ...audit,
+    dateKey: next.dateKey,
+    mode: next.mode,
+    from: current?.subreddit ?? null,
+    to: stored.subreddit,
+    version,
+  };
+  await redis.zAdd(kAuditLog(), { member: JSON.stringify(entry), score: Date.now() });
+  await redis.zRemRangeByRank(kAuditLog(), 0, -(AUDIT_LOG_SIZE + 1));
+
+  return stored;
+}
+
+/** Regenerates the day's puzzle from a fresh seed and makes it the live one. */
+export async function rerollPuzzle(dateKey: string, mode: GameMode, moderator: string): Promise<DailyPuzzle> {
+  const current = await readCachedPuzzle(dateKey, mode);
+  const version = (current?.version ?? 0) + 1;
+  const next = await generatePuzzle(dateKey, mode, `${dateKey}#${version}`);
+  return replacePuzzle(next, { moderator, action: "reroll" });
+}
+
+/** Replaces the day's puzzle with one built around a moderator-chosen post or comment link. */
+export async function authorPuzzle(
+  dateKey: string,
+  mode: GameMode,
+  url: string,
+  moderator: string
+): Promise<DailyPuzzle> {
+  const next = await buildPuzzleFromUrl(dateKey, mode, url);
+  return replacePuzzle(next, { moderator, action: "author", source: url.trim() });
+}
+
+/** Newest first. */
+export async function readAuditLog(limit: number): Promise<PuzzleAuditEntry[]> {
+  const rows = await redis.zRange(kAuditLog(), 0, limit - 1, { by: "rank", reverse: true });
+  return rows.flatMap((r) => {
+    try {
+      return [JSON.parse(r.member) as PuzzleAuditEntry];
+    } catch {
+      return [];
+    }
+  });
+}
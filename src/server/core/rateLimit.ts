@@ -0,0 +1,27 @@
+// src/server/core/rateLimit.ts
+import { redis } from "@devvit/web/server";
+
+// Fixed-window counters per user and action. Coarse, but one INCR per request is all it
+// costs, and it's only there to stop scripted hammering of guesses and comments.
+
+export type RateLimit = {
+  limit: number; // requests allowed per window
+  windowSeconds: number;
+};
+
+function kRate(action: string, userId: string, window: number) {
+  return `nts:rate:${action}:${userId}:${window}`;
+}
+
+/** Counts this request; returns how many seconds to wait when it's over the limit, else null. */
+export async function consumeRateLimit(userId: string, action: string, rule: RateLimit): Promise<number | null> {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const window = Math.floor(nowSeconds / rule.windowSeconds);
+  const key = kRate(action, userId, window);
+
+  const count = await redis.incrBy(key, 1);
+  if (count === 1) await redis.expire(key, rule.windowSeconds);
+
+  if (count <= rule.limit) return null;
+  return Math.max(1, (window + 1) * rule.windowSeconds - nowSeconds);
+}
@@ -0,0 +1,28 @@
+// src/server/core/redact.test.ts
+import { describe, expect, it } from "vitest";
+import { REDACTED } from "../../shared/redaction";
+import { redactClue } from "./redact";
+
+describe("redactClue", () => {
+  it("masks a multi-word name in its usual spellings", () => {
+    expect(redactClue("Posted this on r/AskReddit", "AskReddit")).toBe(`Posted this on ${REDACTED}`);
+    expect(redactClue("classic askreddit thread", "AskReddit")).toBe(`classic ${REDACTED} thread`);
+    expect(redactClue("more ask reddits please", "AskReddit")).toBe(`more ${REDACTED} please`);
+    expect(redactClue("the sports cards crowd", "sports_cards")).toBe(`the ${REDACTED} crowd`);
+  });
+
+  it("leaves the parts of a name alone on their own", () => {
+    expect(redactClue("I read it on reddit", "AskReddit")).toBe("I read it on reddit");
+    expect(redactClue("ask your doctor", "AskHistorians")).toBe("ask your doctor");
+  });
+
+  it("only masks the r/ form of a sub named after a plain word", () => {
+    expect(redactClue("my favourite videos are on r/videos", "videos")).toBe(`my favourite videos are on ${REDACTED}`);
+  });
+
+  it("masks Reddit links and user mentions", () => {
+    expect(redactClue("see https://www.reddit.com/r/pics/comments/abc by u/someone", "pics")).toBe(
+      `see ${REDACTED} by ${REDACTED}`
+    );
+  });
+});
@@ -0,0 +1,67 @@
+// src/server/core/redact.ts
+import { REDACTED } from "../../shared/redaction";
+
+// links into a subreddit (or to any post/comment) name it in the path
+const REDDIT_URL = /(?:https?:\/\/)?(?:[\w-]+\.)*(?:reddit\.com|redd\.it)\/[^\s)\]]*/gi;
+// u/name and /u/name mentions; authors often share the sub's in-jokes or name
+const USER_MENTION = /(?<![\w/])\/?u\/[A-Za-z0-9_-]{3,20}/gi;
+
+const MIN_SUBSTRING_LENGTH = 6; // long enough that matching inside other words is safe
+const MAX_PLAIN_WORD_LENGTH = 8; // "videos", "funny", "politics": one everyday word, not a name
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "AskHistorians" -> ["Ask", "Historians"], "sports_cards" -> ["sports", "cards"]
+function nameParts(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[\s_]+/)
+    .filter(Boolean);
+}
+
+function singular(word: string): string {
+  return word.length > 3 ? word.replace(/s$/i, "") : word;
+}
+
+// loose form of a name: separators between its parts, singular or plural
+function variantPattern(parts: string[]): string {
+  const words = parts.map((p, i) => escapeRegExp(i === parts.length - 1 ? singular(p) : p));
+  return `${words.join("[\\s_-]?")}(?:e?s)?`;
+}
+
+function isPlainWord(subreddit: string): boolean {
+  return /^[a-z]+$/i.test(subreddit) && subreddit.length <= MAX_PLAIN_WORD_LENGTH;
+}
+
+/**
+ * Every spelling of `subreddit` worth masking: the name with or without r/, its camelCase or
+ * underscore parts run together or spaced out, and plurals. Parts are never masked on their own
+ * ("reddit" in AskReddit), and a sub named after a plain word only loses its r/ form, so ordinary
+ * text stays readable.
+ */
+function subredditPatterns(subreddit: string): RegExp[] {
+  const patterns = [new RegExp(`(?<![\\w/])\\/?r\\/${escapeRegExp(subreddit)}\\b`, "gi")];
+  if (isPlainWord(subreddit)) return patterns;
+
+  patterns.push(new RegExp(`\\b${variantPattern(nameParts(subreddit))}\\b`, "gi"));
+  const stem = singular(subreddit);
+  if (stem.length >= MIN_SUBSTRING_LENGTH) {
+    patterns.push(new RegExp(`${escapeRegExp(stem)}(?:e?s)?`, "gi"));
+  }
+  return patterns;
+}
+
+/** Masks everything in a clue that would give `subreddit` away; see REDACTED. */
+export function redactClue(text: string, subreddit: string): string {
+  if (!text) return text;
+
+  let out = text.replace(REDDIT_URL, REDACTED).replace(USER_MENTION, REDACTED);
+  if (subreddit && subreddit !== "all") {
+    for (const pattern of subredditPatterns(subreddit)) out = out.replace(pattern, REDACTED);
+  }
+
+  // neighbouring masks read as one
+  return out.replace(new RegExp(`${escapeRegExp(REDACTED)}(?:[\\s_-]*${escapeRegExp(REDACTED)})+`, "g"), REDACTED);
+}
@@ -0,0 +1,79 @@
+// src/server/core/stats.ts
+import { redis } from "@devvit/web/server";
+import type { DayResult, GameMode, GetStatsResponse, StatsDistribution } from "../../shared/api";
+import { addDays } from "./dateKey";
+import { recordFinish } from "./metrics";
+import type { StreakState } from "./streak";
+
+const HISTORY_DAYS = 30;
+
+function kResults(userId: string, mode: GameMode) {
+  return `nts:user:${userId}:${mode}:results`; // dateKey -> DayResult JSON, never expires
+}
+
+function parseResult(raw: string | undefined): DayResult | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as DayResult;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores how a live daily puzzle ended. Called once per user/day/mode when the puzzle
+ * is finished (win, final loss or give up); archive replays are never recorded here.
+ * Also feeds the community-wide counters behind the moderator dashboard.
+ */
+export async function recordResult(
+  userId: string,
+  mode: GameMode,
+  dateKey: string,
+  result: DayResult
+): Promise<void> {
+  await redis.hSet(kResults(userId, mode), { [dateKey]: JSON.stringify(result) });
+  await recordFinish(mode, dateKey, result);
+}
+
+/** `dateKey` is the caller's resolved day, so results stored under a day ahead of UTC still show. */
+export async function readStats(
+  userId: string,
+  mode: GameMode,
+  dateKey: string,
+  streak: StreakState
+): Promise<GetStatsResponse> {
+  const all = await redis.hGetAll(kResults(userId, mode));
+
+  const distribution: StatsDistribution = { 1: 0, 2: 0, 3: 0, failed: 0, gaveup: 0 };
+  let gamesPlayed = 0;
+  let totalPoints = 0;
+
+  for (const raw of Object.values(all)) {
+    const r = parseResult(raw);
+    if (!r) continue;
+    gamesPlayed++;
+    totalPoints += r.points;
+    if (r.outcome === "won" && r.solvedStage) distribution[r.solvedStage]++;
+    else if (r.outcome === "lost") distribution.failed++;
+    else if (r.outcome === "gaveup") distribution.gaveup++;
+  }
+
+  const wins = distribution[1] + distribution[2] + distribution[3];
+
+  // oldest first so the client can draw it left to right
+  const recent = Array.from({ length: HISTORY_DAYS }, (_, i) => addDays(dateKey, i - (HISTORY_DAYS - 1))).map(
+    (day) => ({ dateKey: day, result: parseResult(all[day]) })
+  );
+
+  return {
+    mode,
+    gamesPlayed,
+    wins,
+    winRate: gamesPlayed ? Math.round((wins / gamesPlayed) * 100) : 0,
+    currentStreak: streak.streak,
+    maxStreak: streak.maxStreak,
+    distribution,
+    averagePoints: gamesPlayed ? Math.round((totalPoints / gamesPlayed) * 10) / 10 : 0,
+    recent,
+  };
+}
@@ -0,0 +1,97 @@
+// src/server/core/streak.test.ts
+import { describe, expect, it } from "vitest";
+import { planStreakResult, streakFromFields } from "./streak";
+
+describe("streakFromFields", () => {
+  const fields = { streak: "4", lastDate: "2026-05-10", maxStreak: "6" };
+
+  it("keeps the streak when the last finish was the same day or the day before", () => {
+    expect(streakFromFields(fields, "2026-05-10").streak).toBe(4); // gap 0
+    expect(streakFromFields(fields, "2026-05-11").streak).toBe(4); // gap 1
+  });
+
+  it("drops the streak after a missed day unless a freeze covers it", () => {
+    expect(streakFromFields(fields, "2026-05-12").streak).toBe(0); // gap 2
+    expect(streakFromFields({ ...fields, freezes: "1" }, "2026-05-12").streak).toBe(4);
+  });
+
+  it("drops the streak after two missed days even with a freeze", () => {
+    expect(streakFromFields({ ...fields, freezes: "2" }, "2026-05-13").streak).toBe(0); // gap 3
+  });
+
+  it("reports the larger of the stored best and the live streak", () => {
+    expect(streakFromFields(fields, "2026-05-11").maxStreak).toBe(6);
+    expect(streakFromFields({ ...fields, maxStreak: "2" }, "2026-05-11").maxStreak).toBe(4);
+  });
+
+  it("treats a player with no finishes as having no streak", () => {
+    expect(streakFromFields({}, "2026-05-11")).toMatchObject({ streak: 0, maxStreak: 0, lastDateKey: null });
+  });
+});
+
+describe("planStreakResult", () => {
+  it("extends the streak on a win the day after the last finish", () => {
+    const change = planStreakResult({ streak: "4", lastDate: "2026-05-10", maxStreak: "4" }, "2026-05-11", true);
+
+    expect(change.update).toEqual({ streak: 5 });
+    expect(change.fields).toEqual({ streak: "5", lastDate: "2026-05-11", maxStreak: "5", freezes: "0" });
+  });
+
+  it("doesn't count a second finish on the same day twice", () => {
+    const change = planStreakResult({ streak: "4", lastDate: "2026-05-11", maxStreak: "4" }, "2026-05-11", true);
+
+    expect(change.update.streak).toBe(4);
+  });
+
+  it("spends a freeze to bridge a single missed day", () => {
+    const change = planStreakResult(
+      { streak: "4", lastDate: "2026-05-10", maxStreak: "4", freezes: "1" },
+      "2026-05-12",
+      true
+    );
+
+    expect(change.update).toEqual({ streak: 5, freeze: "used" });
+    expect(change.fields).toMatchObject({ freezes: "0" });
+    expect(change.freezeUsed).toBe(true);
+  });
+
+  it("restarts at 1 after a missed day without a freeze, or after two missed days", () => {
+    const fields = { streak: "4", lastDate: "2026-05-10", maxStreak: "4" };
+    expect(planStreakResult(fields, "2026-05-12", true).update.streak).toBe(1); // gap 2
+
+    const twoMissed = planStreakResult({ ...fields, freezes: "2" }, "2026-05-13", true); // gap 3
+    expect(twoMissed.update.streak).toBe(1);
+    expect(twoMissed.fields).toMatchObject({ freezes: "2" });
+    expect(twoMissed.freezeUsed).toBe(false);
+  });
+
+  it("resets to 0 on a loss but keeps the best streak", () => {
+    const change = planStreakResult({ streak: "9", lastDate: "2026-05-10", maxStreak: "9" }, "2026-05-11", false);
+
+    expect(change.update).toEqual({ streak: 0 });
+    expect(change.fields).toMatchObject({ streak: "0", lastDate: "2026-05-11", maxStreak: "9" });
+  });
+
+  it("raises maxStreak when the live streak passes it", () => {
+    const change = planStreakResult({ streak: "2", lastDate: "2026-05-10", maxStreak: "2" }, "2026-05-11", true);
+
+    expect(change.fields).toMatchObject({ maxStreak: "3" });
+  });
+
+  it("earns a freeze every 7 days of streak", () => {
+    const change = planStreakResult({ streak: "6", lastDate: "2026-05-10", maxStreak: "6" }, "2026-05-11", true);
+
+    expect(change.update).toEqual({ streak: 7, freeze: "earned" });
+    expect(change.fields).toMatchObject({ freezes: "1" });
+  });
+
+  it("ignores a late submission for a day older than the last finish", () => {
+    const change = planStreakResult({ streak: "5", lastDate: "2026-05-11", maxStreak: "5" }, "2026-05-10", false);
+
+    expect(change).toEqual({ update: { streak: 5 }, fields: null, freezeUsed: false });
+  });
+
+  it("starts a first-time player at 1", () => {
+    expect(planStreakResult({}, "2026-05-11", true).update).toEqual({ streak: 1 });
+  });
+});
@@ -0,0 +1,108 @@
+// src/server/core/streak.ts
+import type { TxClientLike } from "@devvit/web/server";
+import type { GameMode } from "../../shared/api";
+import { daysBetween } from "./dateKey";
+import { kUserMode, readUserMode, type UserModeFields } from "./userStore";
+
+// Streak fields live in the user/mode hash (see userStore):
+//   streak, lastDate (dateKey of the last finished live puzzle), maxStreak,
+//   freezes (owned), freezesUsed (lifetime count, for display)
+
+const FREEZE_EVERY = 7; // one freeze per 7 days of streak
+const MAX_FREEZES = 2;
+
+export type StreakState = {
+  streak: number;
+  maxStreak: number;
+  lastDateKey: string | null;
+  freezes: number;
+  freezesUsed: number;
+};
+
+export type StreakUpdate = {
+  streak: number;
+  freeze?: "used" | "earned";
+};
+
+/**
+ * Streak as seen from `dateKey`: a stored streak only survives while the last finished puzzle
+ * is `dateKey` itself or the day before it, or two days back if a freeze can cover the gap.
+ * Anything older means the streak is gone.
+ */
+export function streakFromFields(fields: UserModeFields, dateKey: string): StreakState {
+  const lastDateKey = fields.lastDate ?? null;
+  const owned = Number(fields.freezes ?? 0);
+  const gap = lastDateKey ? daysBetween(lastDateKey, dateKey) : null;
+  const alive = gap !== null && (gap <= 1 || (gap === 2 && owned > 0));
+  const streak = alive ? Number(fields.streak ?? 0) : 0;
+
+  return {
+    streak,
+    maxStreak: Math.max(Number(fields.maxStreak ?? 0), streak),
+    lastDateKey,
+    freezes: owned,
+    freezesUsed: Number(fields.freezesUsed ?? 0),
+  };
+}
+
+export async function readStreak(userId: string, mode: GameMode, dateKey: string): Promise<StreakState> {
+  return streakFromFields(await readUserMode(userId, mode), dateKey);
+}
+
+export type StreakChange = {
+  update: StreakUpdate;
+  fields: Required<Pick<UserModeFields, "streak" | "lastDate" | "maxStreak" | "freezes">> | null; // null: leave as is
+  freezeUsed: boolean;
+};
+
+/**
+ * Works out what a finished live puzzle does to the streak, given the user/mode fields read
+ * inside the caller's transaction.
+ * A win extends the streak if the previous finish was the day before, otherwise starts at 1;
+ * a single missed day is bridged by spending a freeze, and every FREEZE_EVERY days of streak
+ * earn one (up to MAX_FREEZES). A loss or give-up resets the streak to 0.
+ * Finishing a day older than the last one leaves everything alone, since the client may
+ * submit yesterday's puzzle after already playing today's.
+ */
+export function planStreakResult(fields: UserModeFields, dateKey: string, won: boolean): StreakChange {
+  const current = streakFromFields(fields, dateKey);
+  const gap = current.lastDateKey ? daysBetween(current.lastDateKey, dateKey) : null;
+  if (gap !== null && gap < 0) return { update: { streak: current.streak }, fields: null, freezeUsed: false };
+
+  let streak = 0;
+  let freezes = current.freezes;
+  let freeze: StreakUpdate["freeze"];
+  if (won) {
+    if (gap === 1) streak = current.streak + 1;
+    else if (gap === 0) streak = Math.max(current.streak, 1);
+    else if (gap === 2 && freezes > 0) {
+      streak = current.streak + 1;
+      freezes--;
+      freeze = "used";
+    } else streak = 1;
+
+    if (streak > current.streak && streak % FREEZE_EVERY === 0 && freezes < MAX_FREEZES) {
+      freezes++;
+      freeze ??= "earned";
+    }
+  }
+
+  return {
+    update: { streak, ...(freeze ? { freeze } : {}) },
+    fields: {
+      streak: String(streak),
+      lastDate: dateKey,
+      maxStreak: String(Math.max(current.maxStreak, streak)),
+      freezes: String(freezes),
+    },
+    freezeUsed: freeze === "used",
+  };
+}
+
+/** Queues a planned change on the user/mode hash; call from inside the caller's MULTI. */
+export async function queueStreakWrites(tx: TxClientLike, userId: string, mode: GameMode, change: StreakChange) {
+  if (!change.fields) return;
+  const key = kUserMode(userId, mode);
+  await tx.hSet(key, change.fields);
+  if (change.freezeUsed) await tx.hIncrBy(key, "freezesUsed", 1);
+}
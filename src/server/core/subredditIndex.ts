@@ -0,0 +1,84 @@
+// src/server/core/subredditIndex.ts
+import { redis, reddit } from "@devvit/web/server";
+
+// All members share score 0 so the set is ordered lexicographically and prefix
+// lookups can use ZRANGE BYLEX. Members are lowercased; display casing lives in a hash.
+function kIndex() {
+  return `nts:subindex`;
+}
+function kDisplayNames() {
+  return `nts:subindex:names`; // lowercased -> display name
+}
+function kExists(lowerName: string) {
+  return `nts:subexists:${lowerName}`; // "1" | "0", cached Reddit lookup
+}
+
+const VALID_NAME = /^[A-Za-z0-9][A-Za-z0-9_]{1,20}$/;
+
+export function isValidSubredditName(name: string): boolean {
+  return VALID_NAME.test(name);
+}
+
+export async function indexSubreddits(names: string[]): Promise<void> {
+  const unique = new Map<string, string>();
+  for (const n of names) {
+    if (n && isValidSubredditName(n) && n.toLowerCase() !== "all") unique.set(n.toLowerCase(), n);
+  }
+  if (unique.size === 0) return;
+
+  await redis.zAdd(kIndex(), ...[...unique.keys()].map((member) => ({ member, score: 0 })));
+  await redis.hSet(kDisplayNames(), Object.fromEntries(unique));
+}
+
+export async function suggestSubreddits(query: string, limit: number): Promise<string[]> {
+  const q = query.toLowerCase();
+  if (!q) return [];
+
+  const hits = await redis.zRange(kIndex(), `[${q}`, `[${q}\xff`, {
+    by: "lex",
+    limit: { offset: 0, count: limit },
+  });
+  if (hits.length === 0) return [];
+
+  const members = hits.map((h) => h.member);
+  const names = await redis.hMGet(kDisplayNames(), members);
+  return members.map((m, i) => names[i] ?? m);
+}
+
+/**
+ * True if the subreddit exists. Checks the index first, then asks Reddit and caches the
+ * answer (SFW positive results are added to the index so they show up in suggestions).
+ * Only a definite not-found is cached as missing: a failed lookup (rate limit, outage, or a
+ * private/quarantined sub) counts as existing and is asked again next time.
+ */
+export async function subredditExists(name: string): Promise<boolean> {
+  if (!isValidSubredditName(name)) return false;
+  const lower = name.toLowerCase();
+
+  if ((await redis.zScore(kIndex(), lower)) !== undefined) return true;
+
+  const cached = await redis.get(kExists(lower));
+  if (cached === "1") return true;
+  if (cached === "0") return false;
+
+  let exists = false;
+  let suggestable = false;
+  let display = name;
+  try {
+    const info = await reddit.getSubredditInfoByName(name);
+    exists = !!info?.name;
+    suggestable = exists && !info.isNsfw && !info.isQuarantined;
+    display = info?.name ?? name;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!/\b404\b|not found/i.test(message)) {
+      console.error(`Subreddit lookup failed for r/${name}:`, error);
+      return true;
+    }
+  }
+
+  await redis.set(kExists(lower), exists ? "1" : "0");
+  await redis.expire(kExists(lower), 60 * 60 * 24);
+  if (suggestable) await indexSubreddits([display]);
+  return exists;
+}
@@ -0,0 +1,60 @@
+// src/server/core/subredditLists.ts
+import { redis } from "@devvit/web/server";
+import type { GameMode } from "../../shared/api";
+
+export type SubredditLists = {
+  allow: string[]; // if non-empty, puzzles for this mode are drawn from here only
+  block: string[]; // never used as an answer for this mode
+};
+
+function kAllowlist(mode: GameMode) {
+  return `nts:lists:${mode}:allow`;
+}
+function kBlocklist(mode: GameMode) {
+  return `nts:lists:${mode}:block`;
+}
+
+function readList(raw: string | undefined): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parses moderator input (comma, space or newline separated; `r/` prefixes allowed)
+ * into a de-duplicated list of bare subreddit names, preserving first-seen casing.
+ */
+export function parseSubredditList(input: unknown): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const token of String(input ?? "").split(/[\s,]+/)) {
+    const name = token.replace(/^\/?r\//i, "").replace(/[^A-Za-z0-9_]/g, "");
+    if (!name || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    out.push(name);
+  }
+  return out;
+}
+
+export function formatSubredditList(list: string[]): string {
+  return list.join("\n");
+}
+
+export async function readSubredditLists(mode: GameMode): Promise<SubredditLists> {
+  const [allow, block] = await Promise.all([redis.get(kAllowlist(mode)), redis.get(kBlocklist(mode))]);
+  return { allow: readList(allow), block: readList(block) };
+}
+
+export async function writeSubredditLists(mode: GameMode, lists: SubredditLists): Promise<void> {
+  await redis.set(kAllowlist(mode), JSON.stringify(lists.allow));
+  await redis.set(kBlocklist(mode), JSON.stringify(lists.block));
+}
+
+export function isBlocked(lists: SubredditLists, sub: string): boolean {
+  const lower = sub.toLowerCase();
+  return lists.block.some((b) => b.toLowerCase() === lower);
+}
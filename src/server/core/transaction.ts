@@ -0,0 +1,50 @@
+// src/server/core/transaction.ts
+import { redis, type TxClientLike } from "@devvit/web/server";
+
+const MAX_ATTEMPTS = 5;
+
+export type TxPlan<T> = {
+  result: T;
+  writes?: (tx: TxClientLike) => Promise<void>; // omitted when there is nothing to change
+};
+
+/**
+ * Optimistic read-modify-write over `keys` (WATCH / MULTI / EXEC).
+ * `plan` reads what it needs with the plain client and returns the writes to queue; if another
+ * request touches a watched key before EXEC, the plan is re-run against fresh data.
+ * `plan` therefore must not have side effects of its own.
+ */
+export async function watchAndWrite<T>(keys: string[], plan: () => Promise<TxPlan<T>>): Promise<T> {
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(...keys);
+
+    let planned: TxPlan<T>;
+    try {
+      planned = await plan();
+    } catch (error) {
+      await tx.unwatch();
+      throw error;
+    }
+    const { result, writes } = planned;
+
+    if (!writes) {
+      await tx.unwatch();
+      return result;
+    }
+
+    try {
+      await tx.multi();
+      await writes(tx);
+    } catch (error) {
+      await tx.discard(); // also drops the WATCH
+      throw error;
+    }
+
+    // a WATCH conflict aborts EXEC with no replies; any other failure is a real error and
+    // is thrown as-is. `writes` always queues at least one command, so [] can't mean success.
+    const replies = await tx.exec();
+    if (replies && replies.length > 0) return result;
+  }
+
+  throw new Error(`Redis transaction on ${keys.join(", ")} kept conflicting`);
+}
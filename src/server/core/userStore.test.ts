@@ -0,0 +1,55 @@
+// src/server/core/userStore.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FakeRedis } from "../test/fakeRedis";
+
+vi.mock("@devvit/web/server", async () => {
+  const { createFakeRedis } = await import("../test/fakeRedis");
+  return { redis: createFakeRedis() };
+});
+
+const { redis: devvitRedis } = await import("@devvit/web/server");
+const { kUserDay, readUserDay, writeUserDay } = await import("./userStore");
+
+const redis = devvitRedis as unknown as FakeRedis;
+
+beforeEach(() => {
+  redis.reset();
+});
+
+describe("readUserDay", () => {
+  it("writes nothing for a day the player never opened", async () => {
+    const day = await readUserDay("t2_a", "easy", "2026-05-11");
+
+    expect(day).toMatchObject({ committed: false, completed: false, stage: 1 });
+    expect(redis.dump(kUserDay("t2_a", "easy", "2026-05-11"))).toBeUndefined();
+  });
+
+  it("folds the old loose keys into the day hash and deletes them", async () => {
+    await redis.set("nts:user:t2_a:easy:commit:2026-05-11", "1");
+    await redis.set("nts:user:t2_a:easy:stage:2026-05-11", "2");
+    await redis.set("nts:user:t2_a:easy:played:2026-05-11", "1");
+
+    const day = await readUserDay("t2_a", "easy", "2026-05-11");
+
+    expect(day).toMatchObject({ committed: true, stage: 2 });
+    expect(redis.dump(kUserDay("t2_a", "easy", "2026-05-11"))).toEqual({ migrated: "1", committed: "1", stage: "2" });
+    expect(redis.dump("nts:user:t2_a:easy:stage:2026-05-11")).toBeUndefined();
+    expect(redis.dump("nts:user:t2_a:easy:played:2026-05-11")).toBeUndefined();
+  });
+
+  it("skips the loose keys once the day has been written", async () => {
+    await writeUserDay("t2_a", "easy", "2026-05-11", { committed: "1" });
+    const mGet = vi.spyOn(redis, "mGet");
+
+    expect((await readUserDay("t2_a", "easy", "2026-05-11")).committed).toBe(true);
+    expect(mGet).not.toHaveBeenCalled();
+    mGet.mockRestore();
+  });
+
+  it("keeps a value already written to the hash over a stale loose key", async () => {
+    await redis.hSet(kUserDay("t2_a", "easy", "2026-05-11"), { stage: "3" });
+    await redis.set("nts:user:t2_a:easy:stage:2026-05-11", "2");
+
+    expect((await readUserDay("t2_a", "easy", "2026-05-11")).stage).toBe(3);
+  });
+});
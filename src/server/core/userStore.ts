@@ -0,0 +1,205 @@
+// src/server/core/userStore.ts
+import { redis } from "@devvit/web/server";
+import type { ClueStage, DayHistory, GameMode } from "../../shared/api";
+import { watchAndWrite } from "./transaction";
+
+// Per-user state lives in two hashes so a request can load it with one HGETALL each:
+//   nts:user:${userId}:${mode}                  score, streak, lastDate, maxStreak, freezes, freezesUsed
+//   nts:user:${userId}:${mode}:day:${dateKey}   committed, completed, history, stage, archiveStage, started,
+//                                               puzzleVersion
+// Both carry a "migrated" field once the older loose keys (one string key per value) were folded
+// in; day hashes also get it on their first write. Only an unmarked hash costs a look at the loose
+// keys, and a day that has none is left unwritten.
+
+export const DAY_TTL_SECONDS = 60 * 60 * 48;
+
+export type UserModeField = "score" | "streak" | "lastDate" | "maxStreak" | "freezes" | "freezesUsed";
+export type UserModeFields = Partial<Record<UserModeField, string>>;
+
+export type UserDay = {
+  committed: boolean; // locked after the first reveal or guess
+  completed: boolean; // finished: win, final loss or give up
+  history: DayHistory;
+  stage: ClueStage; // highest clue revealed in the live game
+  archiveStage: ClueStage; // same, for an archive replay of this day
+  startedAt: number; // epoch ms of the first /state, 0 if unknown
+  puzzleVersion: number; // DailyPuzzle.version the day was finished on (see puzzleOverride)
+};
+
+export function kUserMode(userId: string, mode: GameMode) {
+  return `nts:user:${userId}:${mode}`;
+}
+export function kUserDay(userId: string, mode: GameMode, dateKey: string) {
+  return `nts:user:${userId}:${mode}:day:${dateKey}`;
+}
+
+// ------------------------------
+// Lazy migration from loose keys
+// ------------------------------
+const LOOSE_MODE_FIELDS: UserModeField[] = [
+  "score",
+  "streak",
+  "lastDate",
+  "maxStreak",
+  "freezes",
+  "freezesUsed",
+];
+
+// loose per-day key suffix -> day hash field ("played" is dropped: the transaction in /guess replaced it)
+const LOOSE_DAY_FIELDS: [string, string | null][] = [
+  ["commit", "committed"],
+  ["completed", "completed"],
+  ["history", "history"],
+  ["stage", "stage"],
+  ["archiveStage", "archiveStage"],
+  ["started", "started"],
+  ["played", null],
+];
+
+async function migrateUserMode(userId: string, mode: GameMode): Promise<void> {
+  const key = kUserMode(userId, mode);
+  const looseKeys = LOOSE_MODE_FIELDS.map((f) => `nts:user:${userId}:${mode}:${f}`);
+
+  await watchAndWrite([key, ...looseKeys], async () => {
+    const current = await redis.hGetAll(key);
+    if (current.migrated) return { result: undefined };
+    const loose = await redis.mGet(looseKeys);
+
+    return {
+      result: undefined,
+      writes: async (tx) => {
+        const fields: Record<string, string> = { migrated: "1" };
+        let looseScore = 0;
+        LOOSE_MODE_FIELDS.forEach((f, i) => {
+          const v = loose[i];
+          if (v === null || v === undefined) return;
+          if (f === "score") looseScore = Number(v) || 0;
+          else if (current[f] === undefined) fields[f] = v; // a value written to the hash already is newer
+        });
+
+        await tx.hSet(key, fields);
+        // added rather than set, so points earned through the hash before migrating are kept
+        if (looseScore) await tx.hIncrBy(key, "score", looseScore);
+        await tx.del(...looseKeys);
+      },
+    };
+  });
+}
+
+function hasLooseValue(loose: (string | null | undefined)[]): boolean {
+  return loose.some((v) => v !== null && v !== undefined);
+}
+
+function looseDayKeys(userId: string, mode: GameMode, dateKey: string): string[] {
+  return LOOSE_DAY_FIELDS.map(([suffix]) => `nts:user:${userId}:${mode}:${suffix}:${dateKey}`);
+}
+
+async function migrateUserDay(userId: string, mode: GameMode, dateKey: string): Promise<void> {
+  const key = kUserDay(userId, mode, dateKey);
+  const looseKeys = looseDayKeys(userId, mode, dateKey);
+
+  await watchAndWrite([key, ...looseKeys], async () => {
+    const current = await redis.hGetAll(key);
+    if (current.migrated) return { result: undefined };
+    const loose = await redis.mGet(looseKeys);
+    if (!hasLooseValue(loose)) return { result: undefined };
+
+    return {
+      result: undefined,
+      writes: async (tx) => {
+        const fields: Record<string, string> = { migrated: "1" };
+        LOOSE_DAY_FIELDS.forEach(([, field], i) => {
+          const v = loose[i];
+          if (field && v !== null && v !== undefined && current[field] === undefined) fields[field] = v;
+        });
+
+        await tx.hSet(key, fields);
+        await tx.expire(key, DAY_TTL_SECONDS);
+        await tx.del(...looseKeys);
+      },
+    };
+  });
+}
+
+// ------------------------------
+// Reads
+// ------------------------------
+export async function readUserMode(userId: string, mode: GameMode): Promise<UserModeFields> {
+  const fields = await redis.hGetAll(kUserMode(userId, mode));
+  if (fields.migrated) return fields;
+
+  await migrateUserMode(userId, mode);
+  return redis.hGetAll(kUserMode(userId, mode));
+}
+
+function parseStage(raw: string | undefined): ClueStage {
+  const n = Number(raw);
+  return n === 2 || n === 3 ? n : 1;
+}
+
+function parseHistory(raw: string | undefined): DayHistory {
+  if (!raw) return { attempts: [], outcome: null };
+  try {
+    return JSON.parse(raw) as DayHistory;
+  } catch {
+    return { attempts: [], outcome: null };
+  }
+}
+
+export async function readUserDay(userId: string, mode: GameMode, dateKey: string): Promise<UserDay> {
+  const key = kUserDay(userId, mode, dateKey);
+  const fields = await redis.hGetAll(key);
+  if (fields.migrated) return parseUserDay(fields);
+
+  // unmarked: never written since the switch to hashes, so the old loose keys may still hold it
+  const loose = await redis.mGet(looseDayKeys(userId, mode, dateKey));
+  if (!hasLooseValue(loose)) return parseUserDay(fields);
+
+  await migrateUserDay(userId, mode, dateKey);
+  return parseUserDay(await redis.hGetAll(key));
+}
+
+// For transaction plans, which must not write: these skip the migration, so the caller reads
+// through readUserMode/readUserDay once before starting the transaction.
+export async function peekUserMode(userId: string, mode: GameMode): Promise<UserModeFields> {
+  return redis.hGetAll(kUserMode(userId, mode));
+}
+export async function peekUserDay(userId: string, mode: GameMode, dateKey: string): Promise<UserDay> {
+  return parseUserDay(await redis.hGetAll(kUserDay(userId, mode, dateKey)));
+}
+
+function parseUserDay(fields: Record<string, string>): UserDay {
+  return {
+    committed: fields.committed === "1",
+    completed: fields.completed === "1",
+    history: parseHistory(fields.history),
+    stage: parseStage(fields.stage),
+    archiveStage: parseStage(fields.archiveStage),
+    startedAt: Number(fields.started ?? 0),
+    puzzleVersion: Number(fields.puzzleVersion ?? 0),
+  };
+}
+
+// ------------------------------
+// Writes
+// ------------------------------
+export async function writeUserDay(
+  userId: string,
+  mode: GameMode,
+  dateKey: string,
+  fields: Record<string, string>
+): Promise<void> {
+  const key = kUserDay(userId, mode, dateKey);
+  // callers read the day (and so migrated it) first
+  await redis.hSet(key, { ...fields, migrated: "1" });
+  await redis.expire(key, DAY_TTL_SECONDS);
+}
+
+// first call wins and returns true; later calls keep the original start time
+export async function markDayStarted(userId: string, mode: GameMode, dateKey: string): Promise<boolean> {
+  const key = kUserDay(userId, mode, dateKey);
+  const first = await redis.hSetNX(key, "started", String(Date.now()));
+  if (first === 1) await redis.hSet(key, { migrated: "1" }); // loadState read the day first
+  await redis.expire(key, DAY_TTL_SECONDS);
+  return first === 1;
+}
@@ -4,6 +4,7 @@ import { createServer, getServerPort } from '@devvit/web/server';
 import { api } from "./routes/api";
 import { forms } from './routes/forms';
 import { menu } from './routes/menu';
+import { schedulerRoutes } from './routes/scheduler';
 import { triggers } from './routes/triggers';
 
 const app = new Hono();
@@ -12,6 +13,7 @@ const internal = new Hono();
 internal.route('/menu', menu);
 internal.route('/form', forms);
 internal.route('/triggers', triggers);
+internal.route('/scheduler', schedulerRoutes);
 
 app.route('/api', api);
 app.route('/internal', internal);
@@ -0,0 +1,67 @@
+// src/server/routes/admin.ts
+import { Hono } from "hono";
+import type { AdminMetricsResponse, AdminPuzzleEntry, AdminPuzzlesResponse, ErrorResponse } from "../../shared/api";
+import { validateMode } from "../../shared/validation";
+import { utcDateKeyOffset } from "../core/dateKey";
+import { addMetricCounts, readMetricCounts, summarizeMetrics, type MetricCounts } from "../core/metrics";
+import { isCurrentUserModerator } from "../core/moderator";
+import { readCachedPuzzle } from "../core/puzzle";
+
+const DASHBOARD_DAYS = 30;
+
+// tomorrow (UTC) first: pregeneration builds it and players east of UTC are already on it
+function recentDateKeys(): string[] {
+  return Array.from({ length: DASHBOARD_DAYS + 1 }, (_, i) => utcDateKeyOffset(1 - i));
+}
+
+export const admin = new Hono();
+
+// every dashboard route is moderator-only
+admin.use("*", async (c, next) => {
+  if (!(await isCurrentUserModerator())) {
+    return c.json<ErrorResponse>({ status: "error", code: "FORBIDDEN", message: "Moderators only." }, 403);
+  }
+  await next();
+});
+
+// GET /api/admin/metrics?mode=...
+admin.get("/metrics", async (c) => {
+  const requested = validateMode(c.req.query("mode"));
+  if (!requested.ok) return c.json<ErrorResponse>(requested.error, 400);
+  const mode = requested.value;
+  const dateKeys = recentDateKeys();
+  const counts = await Promise.all(dateKeys.map((dk) => readMetricCounts(mode, dk)));
+
+  const empty: MetricCounts = { players: 0, solvedByStage: { 1: 0, 2: 0, 3: 0 }, lost: 0, gaveup: 0, points: 0 };
+
+  const payload: AdminMetricsResponse = {
+    mode,
+    days: dateKeys.map((dateKey, i) => ({ dateKey, ...summarizeMetrics(counts[i]!) })),
+    total: summarizeMetrics(counts.reduce(addMetricCounts, empty)),
+  };
+  return c.json(payload);
+});
+
+// GET /api/admin/puzzles?mode=...
+admin.get("/puzzles", async (c) => {
+  const requested = validateMode(c.req.query("mode"));
+  if (!requested.ok) return c.json<ErrorResponse>(requested.error, 400);
+  const mode = requested.value;
+  const puzzles = await Promise.all(recentDateKeys().map((dk) => readCachedPuzzle(dk, mode)));
+
+  const payload: AdminPuzzlesResponse = {
+    mode,
+    puzzles: puzzles
+      .filter((p) => p !== null)
+      .map(
+        (p): AdminPuzzleEntry => ({
+          dateKey: p.dateKey,
+          subreddit: p.subreddit,
+          postId: p.postId,
+          postTitle: p.postTitle,
+          version: p.version ?? 0,
+        })
+      ),
+  };
+  return c.json(payload);
+});
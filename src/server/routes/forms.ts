@@ -1,10 +1,40 @@
 import { Hono } from 'hono';
 import type { UiResponse } from '@devvit/web/shared';
+import { reddit, scheduler } from '@devvit/web/server';
+import { GAME_MODES, type GameMode } from '../../shared/api';
+import { readAliases, writeAliases } from '../core/aliases';
+import { pregenerateDateKeys } from '../core/pregenerate';
+import { authorPuzzle, rerollPuzzle } from '../core/puzzleOverride';
+import {
+  formatSubredditList,
+  parseSubredditList,
+  writeSubredditLists,
+} from '../core/subredditLists';
 
 type ExampleFormValues = {
   message?: string;
 };
 
+type SubredditListsFormValues = Partial<
+  Record<`${GameMode}Allow` | `${GameMode}Block`, string>
+>;
+
+type AliasLookupFormValues = {
+  subreddit?: string;
+};
+
+type AliasEditFormValues = {
+  subreddit?: string;
+  aliases?: string;
+  related?: string;
+};
+
+type PuzzleOverrideFormValues = {
+  target?: string[];
+  action?: string[];
+  url?: string;
+};
+
 export const forms = new Hono();
 
 forms.post('/example-submit', async (c) => {
@@ -20,3 +50,155 @@ forms.post('/example-submit', async (c) => {
     200
   );
 });
+
+forms.post('/subreddit-lists-submit', async (c) => {
+  const values = await c.req.json<SubredditListsFormValues>();
+
+  try {
+    const summary: string[] = [];
+    for (const m of GAME_MODES) {
+      const allow = parseSubredditList(values[`${m}Allow`]);
+      const block = parseSubredditList(values[`${m}Block`]);
+      await writeSubredditLists(m, { allow, block });
+      summary.push(`${m}: ${allow.length} allowed, ${block.length} blocked`);
+    }
+
+    return c.json<UiResponse>(
+      { showToast: { text: `Saved (${summary.join('; ')})`, appearance: 'success' } },
+      200
+    );
+  } catch (error) {
+    console.error(`Error saving subreddit lists: ${error}`);
+    return c.json<UiResponse>(
+      { showToast: 'Failed to save subreddit lists' },
+      400
+    );
+  }
+});
+
+forms.post('/generation-status-submit', async (c) => {
+  try {
+    await scheduler.runJob({
+      name: 'pregenerate-puzzles-once',
+      data: { retry: 0 },
+      runAt: new Date(),
+    });
+
+    return c.json<UiResponse>(
+      { showToast: 'Puzzle generation started. Check back in a minute.' },
+      200
+    );
+  } catch (error) {
+    console.error(`Error starting puzzle generation: ${error}`);
+    return c.json<UiResponse>(
+      { showToast: 'Failed to start puzzle generation' },
+      400
+    );
+  }
+});
+
+forms.post('/alias-lookup-submit', async (c) => {
+  const { subreddit } = await c.req.json<AliasLookupFormValues>();
+  const [answer] = parseSubredditList(subreddit);
+  if (!answer) {
+    return c.json<UiResponse>({ showToast: 'Enter a subreddit name' }, 400);
+  }
+
+  const current = await readAliases(answer);
+
+  return c.json<UiResponse>(
+    {
+      showForm: {
+        name: 'aliasEditForm',
+        form: {
+          title: `Aliases for r/${answer}`,
+          description: 'Leave both lists empty to remove all aliases.',
+          acceptLabel: 'Save',
+          fields: [
+            {
+              type: 'string',
+              name: 'subreddit',
+              label: 'Answer subreddit',
+              defaultValue: answer,
+              required: true,
+            },
+            {
+              type: 'paragraph',
+              name: 'aliases',
+              label: 'Accepted aliases',
+              helpText: 'Guesses counted as correct. One per line or comma-separated.',
+              defaultValue: formatSubredditList(current.aliases),
+            },
+            {
+              type: 'paragraph',
+              name: 'related',
+              label: 'Related subs',
+              helpText: 'Wrong, but the player gets a "related sub" hint.',
+              defaultValue: formatSubredditList(current.related),
+            },
+          ],
+        },
+      },
+    },
+    200
+  );
+});
+
+forms.post('/alias-edit-submit', async (c) => {
+  const values = await c.req.json<AliasEditFormValues>();
+  const [answer] = parseSubredditList(values.subreddit);
+  if (!answer) {
+    return c.json<UiResponse>({ showToast: 'Enter a subreddit name' }, 400);
+  }
+
+  try {
+    const aliases = parseSubredditList(values.aliases);
+    const related = parseSubredditList(values.related);
+    await writeAliases(answer, { aliases, related });
+
+    return c.json<UiResponse>(
+      {
+        showToast: {
+          text: `Saved r/${answer}: ${aliases.length} alias(es), ${related.length} related`,
+          appearance: 'success',
+        },
+      },
+      200
+    );
+  } catch (error) {
+    console.error(`Error saving aliases for r/${answer}: ${error}`);
+    return c.json<UiResponse>({ showToast: 'Failed to save aliases' }, 400);
+  }
+});
+
+forms.post('/puzzle-override-submit', async (c) => {
+  const { target, action, url } = await c.req.json<PuzzleOverrideFormValues>();
+  const [dateKey, rawMode] = (target?.[0] ?? '').split('|');
+  const mode = GAME_MODES.find((m) => m === rawMode);
+  if (!dateKey || !mode || !pregenerateDateKeys().includes(dateKey)) {
+    return c.json<UiResponse>({ showToast: 'Pick a puzzle to change' }, 400);
+  }
+
+  const moderator = (await reddit.getCurrentUsername()) ?? 'unknown';
+
+  try {
+    const puzzle =
+      action?.[0] === 'author'
+        ? await authorPuzzle(dateKey, mode, String(url ?? ''), moderator)
+        : await rerollPuzzle(dateKey, mode, moderator);
+
+    return c.json<UiResponse>(
+      {
+        showToast: {
+          text: `${dateKey} ${mode.toUpperCase()} is now r/${puzzle.subreddit}`,
+          appearance: 'success',
+        },
+      },
+      200
+    );
+  } catch (error) {
+    console.error(`Puzzle override failed for ${dateKey}/${mode}: ${error}`);
+    const message = error instanceof Error ? error.message : 'Puzzle override failed';
+    return c.json<UiResponse>({ showToast: message }, 400);
+  }
+});
@@ -0,0 +1,123 @@
+// src/server/routes/game.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { DailyPuzzle, GiveUpResponse, GuessResponse } from "../../shared/api";
+import type { FakeRedis } from "../test/fakeRedis";
+
+// Races /guess and /giveup against each other on one player's day: whatever the
+// interleaving, exactly one request may finish the puzzle and pay out.
+
+vi.mock("@devvit/web/server", async () => {
+  const { createFakeRedis } = await import("../test/fakeRedis");
+  return {
+    redis: createFakeRedis(),
+    reddit: {
+      getCurrentUser: async () => ({ id: "t2_racer", username: "racer" }),
+      getCurrentUsername: async () => "racer",
+    },
+    context: { subredditName: "namethatsub" },
+    settings: { get: async () => undefined },
+  };
+});
+
+vi.mock("../core/puzzle", () => {
+  const puzzle = (dateKey: string): DailyPuzzle => ({
+    dateKey,
+    mode: "medium",
+    subreddit: "AskReddit",
+    postId: "t3_post",
+    postTitle: "title",
+    postBody: "body",
+    commentId: "t1_comment",
+    commentBody: "comment",
+  });
+  return {
+    buildDailyPuzzle: async (dateKey: string) => puzzle(dateKey),
+    readCachedPuzzle: async (dateKey: string) => puzzle(dateKey),
+    toPuzzleView: () => ({}),
+  };
+});
+
+vi.mock("../core/subredditIndex", () => ({
+  subredditExists: async () => true,
+  suggestSubreddits: async () => [],
+}));
+
+const { redis: devvitRedis } = await import("@devvit/web/server");
+const { game } = await import("./game");
+const { utcDateKey } = await import("../core/dateKey");
+const { kUserDay, kUserMode } = await import("../core/userStore");
+
+const redis = devvitRedis as unknown as FakeRedis;
+const USER = "t2_racer";
+const MODE = "medium";
+
+function post(path: string, body: Record<string, unknown>) {
+  return game.request(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+function finishes(dateKey: string): number {
+  const m = (redis.dump(`nts:metrics:${dateKey}:${MODE}`) ?? {}) as Record<string, string>;
+  return ["won1", "won2", "won3", "lost", "gaveup"].reduce((n, f) => n + Number(m[f] ?? 0), 0);
+}
+
+beforeEach(() => {
+  redis.reset();
+});
+
+describe("concurrent finishes", () => {
+  it("pays out once when the same correct guess arrives many times at once", async () => {
+    const dateKey = utcDateKey();
+    const responses = await Promise.all(
+      Array.from({ length: 8 }, () => post("/guess", { subredditGuess: "AskReddit", mode: MODE, dateKey }))
+    );
+
+    const bodies = (await Promise.all(responses.filter((r) => r.ok).map((r) => r.json()))) as GuessResponse[];
+    const paid = bodies.filter((b) => b.pointsAwarded > 0);
+
+    expect(paid).toHaveLength(1);
+    expect(finishes(dateKey)).toBe(1);
+
+    const points = paid[0]!.pointsAwarded;
+    expect(redis.dump(kUserMode(USER, MODE))).toMatchObject({ score: String(points), streak: "1", lastDate: dateKey });
+    expect(redis.dump(`nts:lb:${MODE}:alltime`)).toEqual({ [USER]: points });
+
+    const day = redis.dump(kUserDay(USER, MODE, dateKey)) as Record<string, string>;
+    const history = JSON.parse(day.history!);
+    expect(history.outcome).toBe("won");
+    expect(history.attempts).toHaveLength(1);
+    expect(history.streak).toBe(1);
+  });
+
+  it("lets exactly one of a mixed burst of guesses and give-ups finish the day", async () => {
+    const dateKey = utcDateKey();
+    const responses = await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        i % 2 === 0
+          ? post("/giveup", { mode: MODE, dateKey })
+          : post("/guess", { subredditGuess: "AskReddit", mode: MODE, dateKey })
+      )
+    );
+
+    // late arrivals are turned away as ALREADY_COMPLETED; nothing else may fail
+    for (const r of responses) expect([200, 409]).toContain(r.status);
+    expect(finishes(dateKey)).toBe(1);
+
+    const day = redis.dump(kUserDay(USER, MODE, dateKey)) as Record<string, string>;
+    const outcome = JSON.parse(day.history!).outcome as GiveUpResponse["history"]["outcome"];
+    const mode = redis.dump(kUserMode(USER, MODE)) as Record<string, string>;
+
+    if (outcome === "won") {
+      expect(Number(mode.score)).toBeGreaterThan(0);
+      expect(mode.streak).toBe("1");
+    } else {
+      expect(outcome).toBe("gaveup");
+      expect(mode.score).toBeUndefined();
+      expect(mode.streak).toBe("0");
+    }
+    expect(mode.lastDate).toBe(dateKey);
+  });
+});
@@ -1,28 +1,123 @@
 // src/server/routes/game.ts
-import { Hono } from "hono";
-import { redis, reddit } from "@devvit/web/server";
-import type { DailyPuzzle, GameMode, GetStateResponse, GuessResponse } from "../../shared/api";
-
-function utcDateKey(d = new Date()): string {
-  const y = d.getUTCFullYear();
-  const m = String(d.getUTCMonth() + 1).padStart(2, "0");
-  const day = String(d.getUTCDate()).padStart(2, "0");
-  return `${y}-${m}-${day}`;
-}
-
-function utcDateKeyOffset(daysOffset: number): string {
-  return utcDateKey(new Date(Date.now() + daysOffset * 24 * 60 * 60 * 1000));
-}
+import { Hono, type Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { context, redis, reddit } from "@devvit/web/server";
+import {
+  GAME_MODES,
+  type ArchiveResponse,
+  type ClueStage,
+  type DailyPuzzle,
+  type DayHistory,
+  type ErrorResponse,
+  type GameInitResponse,
+  type GameMode,
+  type GetLeaderboardResponse,
+  type GetStateResponse,
+  type GetStatsResponse,
+  type GiveUpResponse,
+  type GuessResponse,
+  type GuessVerdict,
+  type LeaderboardScope,
+  type ModeStatus,
+  type RevealResponse,
+  type ShareResponse,
+  type SuggestResponse,
+} from "../../shared/api";
+import { formatShareText } from "../../shared/share";
+import {
+  ApiError,
+  validateGuessRequest,
+  validateMode,
+  validatePlayRequest,
+  type PlayRequest,
+  type Validation,
+} from "../../shared/validation";
+import { readAliases } from "../core/aliases";
+import {
+  isArchived,
+  listArchive,
+  readArchiveHistories,
+  readArchiveHistory,
+  writeArchiveHistory,
+} from "../core/archive";
+import { isDateKey, utcDateKey, utcDateKeyOffset } from "../core/dateKey";
+import { readGameSettings } from "../core/gameSettings";
+import { countGuessesUsed, gradeGuess, usesGuess } from "../core/guessMatch";
+import { readLeaderboard, recordWin } from "../core/leaderboard";
+import { recordPlayerStarted } from "../core/metrics";
+import { isCurrentUserModerator } from "../core/moderator";
+import { readDailyPostId, readPostDateKey } from "../core/post";
+import { buildDailyPuzzle, toPuzzleView } from "../core/puzzle";
+import { readPuzzleVersion } from "../core/puzzleOverride";
+import { consumeRateLimit, type RateLimit } from "../core/rateLimit";
+import { readStats, recordResult } from "../core/stats";
+import {
+  readStreak,
+  planStreakResult,
+  queueStreakWrites,
+  streakFromFields,
+} from "../core/streak";
+import { subredditExists, suggestSubreddits } from "../core/subredditIndex";
+import { watchAndWrite } from "../core/transaction";
+import {
+  DAY_TTL_SECONDS,
+  kUserDay,
+  kUserMode,
+  markDayStarted,
+  peekUserDay,
+  peekUserMode,
+  readUserDay,
+  readUserMode,
+  writeUserDay,
+  type UserDay,
+  type UserModeFields,
+} from "../core/userStore";
 
 function normalizeGuess(input: string): string {
   const s = input.trim().replace(/^\/?r\//i, "");
   return s.replace(/[^A-Za-z0-9_]/g, "");
 }
 
-function normalizeMode(raw: unknown): GameMode {
-  const s = String(raw ?? "").toLowerCase();
-  if (s === "easy" || s === "medium" || s === "hard") return s;
-  return "medium";
+const GUESS_RATE: RateLimit = { limit: 30, windowSeconds: 60 };
+const SHARE_RATE: RateLimit = { limit: 5, windowSeconds: 60 };
+
+// a failed check ends the request with a 400 carrying the shared validator's ErrorResponse
+function requireValid<T>(result: Validation<T>): T {
+  if (!result.ok) throw new ApiError(400, result.error);
+  return result.value;
+}
+
+async function readBody(c: Context): Promise<unknown> {
+  try {
+    return await c.req.json<unknown>();
+  } catch {
+    throw new ApiError(400, { status: "error", code: "INVALID_REQUEST", message: "Expected a JSON body." });
+  }
+}
+
+async function enforceRateLimit(userId: string, action: string, rule: RateLimit): Promise<void> {
+  const retryAfterSeconds = await consumeRateLimit(userId, action, rule);
+  if (retryAfterSeconds === null) return;
+  throw new ApiError(429, {
+    status: "error",
+    code: "RATE_LIMITED",
+    message: `Slow down — try again in ${retryAfterSeconds}s.`,
+    retryAfterSeconds,
+  });
+}
+
+function alreadyCompleted(mode: GameMode, dateKey: string): ApiError {
+  return new ApiError(409, {
+    status: "error",
+    code: "ALREADY_COMPLETED",
+    message: "You already finished this puzzle.",
+    mode,
+    dateKey,
+  });
+}
+
+function normalizeScope(raw: unknown): LeaderboardScope {
+  return String(raw ?? "").toLowerCase() === "alltime" ? "alltime" : "daily";
 }
 
 /**
@@ -31,11 +126,18 @@ function normalizeMode(raw: unknown): GameMode {
  */
 function normalizeClientDateKey(raw: unknown): string {
   const s = String(raw ?? "").trim();
-  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return utcDateKey();
+  if (!isDateKey(s)) return utcDateKey();
   return s;
 }
 
-function resolveDateKey(queryOrBodyDateKey: unknown): string {
+/**
+ * Daily posts are bound to their own puzzle day, so a post always serves the same puzzle
+ * (older posts act as archives). Legacy posts without a binding use the client's local day.
+ */
+async function resolveDateKey(queryOrBodyDateKey: unknown): Promise<string> {
+  const bound = await readPostDateKey(context.postId);
+  if (bound) return bound;
+
   const dk = normalizeClientDateKey(queryOrBodyDateKey);
 
   const allowed = new Set([utcDateKeyOffset(-1), utcDateKeyOffset(0), utcDateKeyOffset(1)]);
@@ -44,360 +146,692 @@ function resolveDateKey(queryOrBodyDateKey: unknown): string {
   return dk;
 }
 
-function seedFromString(str: string): number {
-  let h = 2166136261;
-  for (let i = 0; i < str.length; i++) {
-    h ^= str.charCodeAt(i);
-    h = Math.imul(h, 16777619);
-  }
-  return h >>> 0;
-}
-
-function pickIndex(len: number, seed: number): number {
-  let x = seed || 123456789;
-  x ^= x << 13;
-  x ^= x >> 17;
-  x ^= x << 5;
-  return Math.abs(x) % len;
-}
+type Play = {
+  dateKey: string;
+  archive: boolean; // replay of a past puzzle: recorded separately, no points/streak/leaderboard
+};
 
-function minSubsForMode(mode: GameMode): number {
-  if (mode === "easy") return 1_000_000;
-  if (mode === "medium") return 10_000;
-  return 0;
-}
+/**
+ * Archive plays are either an explicitly requested past dateKey that has a stored puzzle,
+ * or a daily post whose own day has since left the live +/- 1 day window.
+ */
+async function resolvePlay({ mode, dateKey: requested, archive }: PlayRequest): Promise<Play> {
+  const liveFloor = utcDateKeyOffset(-1);
 
-function getSubscriberCount(info: any): number {
-  const candidates = [
-    info?.subscribers,
-    info?.subscriberCount,
-    info?.subscriber_count,
-    info?.subscribersCount,
-    info?.communitySize,
-  ];
-  for (const v of candidates) {
-    if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (archive && requested && isDateKey(requested) && requested < liveFloor && (await isArchived(mode, requested))) {
+    return { dateKey: requested, archive: true };
   }
-  return 0;
-}
 
-function isNsfwSub(info: any): boolean {
-  const candidates = [info?.nsfw, info?.isNsfw, info?.over18, info?.isOver18, info?.over_18];
-  return candidates.some((v) => v === true);
-}
-
-function getPostSubredditName(post: any): string | null {
-  return post?.subredditName ?? post?.subreddit?.name ?? post?.subreddit ?? null;
+  const dateKey = await resolveDateKey(requested);
+  return { dateKey, archive: dateKey < liveFloor };
 }
 
 // ------------------------------
-// Per-mode key helpers
+// Per-user state helpers (storage lives in core/userStore)
 // ------------------------------
-function kScore(userId: string, mode: GameMode) {
-  return `nts:user:${userId}:${mode}:score`;
-}
-function kStreak(userId: string, mode: GameMode) {
-  return `nts:user:${userId}:${mode}:streak`;
+function kShares(mode: GameMode, dateKey: string) {
+  return `nts:shares:${mode}:${dateKey}`; // userId -> commentId, one result comment per user/day/mode
 }
-function kLastDate(userId: string, mode: GameMode) {
-  return `nts:user:${userId}:${mode}:lastDate`;
-}
-function kPlayed(userId: string, mode: GameMode, dateKey: string) {
-  return `nts:user:${userId}:${mode}:played:${dateKey}`; // points awarded once/day/mode (on win)
+
+// picking from four options is easier than typing a name, so choice mode pays less
+function pointsForStage(mode: GameMode, stage: ClueStage): number {
+  if (mode === "choice") return stage === 1 ? 50 : stage === 2 ? 30 : 15;
+  return stage === 1 ? 100 : stage === 2 ? 60 : 30;
 }
-function kCommit(userId: string, mode: GameMode, dateKey: string) {
-  return `nts:user:${userId}:${mode}:commit:${dateKey}`; // lock after first reveal or guess
+
+// with four options, enough guesses would make every choice puzzle a guaranteed win
+const CHOICE_GUESSES = 2;
+
+function guessLimit(mode: GameMode, guessesPerPuzzle: number): number {
+  return mode === "choice" ? Math.min(CHOICE_GUESSES, guessesPerPuzzle) : guessesPerPuzzle;
 }
-function kCompleted(userId: string, mode: GameMode, dateKey: string) {
-  return `nts:user:${userId}:${mode}:completed:${dateKey}`; // finished (win OR final loss OR give up)
+
+// archive replays show the player's streak as of the live day, not the replayed one
+function playStreak(fields: UserModeFields, dateKey: string, archive: boolean) {
+  return streakFromFields(fields, archive ? utcDateKey() : dateKey);
 }
 
-async function readCommitted(userId: string, mode: GameMode, dateKey: string): Promise<boolean> {
-  return (await redis.get(kCommit(userId, mode, dateKey))) === "1";
+// the first look at a live day is what the dashboard counts as a player, and starts the solve clock
+async function markStarted(userId: string, mode: GameMode, dateKey: string): Promise<void> {
+  if (await markDayStarted(userId, mode, dateKey)) await recordPlayerStarted(mode, dateKey);
 }
 
+// modes preloaded by /init are only stamped here, when the player first acts on them
 async function commitMode(userId: string, mode: GameMode, dateKey: string): Promise<void> {
-  const key = kCommit(userId, mode, dateKey);
-  await redis.set(key, "1");
-  await redis.expire(key, 60 * 60 * 48);
+  await writeUserDay(userId, mode, dateKey, { committed: "1" });
+  await markStarted(userId, mode, dateKey);
 }
 
-async function readCompleted(userId: string, mode: GameMode, dateKey: string): Promise<boolean> {
-  return (await redis.get(kCompleted(userId, mode, dateKey))) === "1";
+async function writeStage(
+  userId: string,
+  mode: GameMode,
+  dateKey: string,
+  archive: boolean,
+  stage: ClueStage
+): Promise<void> {
+  // archive replays get their own stage so a finished live day doesn't carry over
+  await writeUserDay(userId, mode, dateKey, { [archive ? "archiveStage" : "stage"]: String(stage) });
 }
 
-async function setCompleted(userId: string, mode: GameMode, dateKey: string): Promise<void> {
-  const key = kCompleted(userId, mode, dateKey);
-  await redis.set(key, "1");
-  await redis.expire(key, 60 * 60 * 48);
+async function writeHistory(
+  userId: string,
+  mode: GameMode,
+  dateKey: string,
+  history: DayHistory
+): Promise<void> {
+  await writeUserDay(userId, mode, dateKey, { history: JSON.stringify(history) });
 }
 
-// -------- subreddit selection (API-driven, no allowlist) --------
-async function pickSubredditForMode(dateKey: string, mode: GameMode): Promise<string> {
-  const minSubs = minSubsForMode(mode);
-
-  let posts: any[] = [];
+// a moderator may replace a day's puzzle; whoever already finished it keeps the one they played
+// generation failures (e.g. no usable posts) surface as PUZZLE_UNAVAILABLE rather than a bare 500
+async function puzzleForDay(dateKey: string, mode: GameMode, day: UserDay | null): Promise<DailyPuzzle> {
+  let puzzle: DailyPuzzle;
   try {
-    posts = await reddit.getNewPosts({ subredditName: "all", limit: 120, pageSize: 120 }).all();
-  } catch {
-    posts = await reddit.getHotPosts({ subredditName: "all", limit: 120, pageSize: 120 }).all();
-  }
-
-  const candidates = posts
-    .map((p) => ({ post: p, sub: getPostSubredditName(p) }))
-    .filter((x) => !!x.sub) as { post: any; sub: string }[];
-
-  if (candidates.length === 0) return "all";
-
-  // mode is part of seed so easy/medium/hard pick different subs
-  const baseSeed = seedFromString(`${dateKey}:${mode}:subpick`);
-  const tried = new Set<string>();
-
-  for (let i = 0; i < Math.min(45, candidates.length); i++) {
-    const idx = pickIndex(candidates.length, seedFromString(`${baseSeed}:${i}`));
-    const sub = candidates[idx]!.sub;
-    if (tried.has(sub)) continue;
-    tried.add(sub);
-
-    try {
-      const info = await reddit.getSubredditInfoByName(sub);
-      if (isNsfwSub(info)) continue;
-
-      const subs = getSubscriberCount(info);
-
-      // lenient if subscriber count unknown
-      if (subs === 0 || subs >= minSubs) return sub;
-    } catch {
-      continue;
-    }
+    puzzle = await buildDailyPuzzle(dateKey, mode);
+  } catch (error) {
+    console.error(`Puzzle unavailable for ${dateKey}/${mode}:`, error);
+    throw new ApiError(503, {
+      status: "error",
+      code: "PUZZLE_UNAVAILABLE",
+      message: "This puzzle isn't available right now. Try again in a few minutes.",
+      mode,
+      dateKey,
+    });
   }
-
-  return candidates[pickIndex(candidates.length, baseSeed)]!.sub;
+  if (!day?.completed || day.puzzleVersion === (puzzle.version ?? 0)) return puzzle;
+  return (await readPuzzleVersion(dateKey, mode, day.puzzleVersion)) ?? puzzle;
 }
 
-async function buildDailyPuzzle(dateKey: string, mode: GameMode): Promise<DailyPuzzle> {
-  const cacheKey = `nts:puzzle:${dateKey}:${mode}`;
-  const cached = await redis.get(cacheKey);
-  if (cached) return JSON.parse(cached) as DailyPuzzle;
+function solveSeconds(startedAt: number): number {
+  if (!startedAt) return 0;
+  return Math.max(0, Math.round((Date.now() - startedAt) / 1000));
+}
 
-  const subreddit = await pickSubredditForMode(dateKey, mode);
+export const game = new Hono();
 
-  let posts: any[] = [];
-  try {
-    posts = await reddit.getNewPosts({ subredditName: subreddit, limit: 50, pageSize: 50 }).all();
-  } catch {
-    posts = await reddit.getHotPosts({ subredditName: subreddit, limit: 50, pageSize: 50 }).all();
+game.onError((err, c) => {
+  if (err instanceof ApiError && err.response) {
+    if (err.response.code === "RATE_LIMITED") c.header("Retry-After", String(err.response.retryAfterSeconds));
+    return c.json<ErrorResponse>(err.response, err.status as ContentfulStatusCode);
   }
+  console.error(`API Error ${c.req.method} ${c.req.path}:`, err);
+  return c.json<ErrorResponse>(
+    { status: "error", code: "INTERNAL", message: "Something went wrong. Try again." },
+    500
+  );
+});
 
-  if (posts.length === 0) throw new Error(`No posts found for r/${subreddit}`);
-
-  const post = posts[pickIndex(posts.length, seedFromString(`${dateKey}:${mode}:${subreddit}:post`))];
-
-  const postId: string = post.id;
-  const postTitle: string = post.title ?? "";
-  const postBody: string = (post.selftext ?? post.body ?? "").toString();
-
-  const comments = await reddit
-    .getComments({ postId: postId as `t3_${string}`, limit: 200, pageSize: 100 })
-    .all();
+/**
+ * Everything the client needs to render one mode's puzzle. Unless `preload` is set, also stamps
+ * the player's first look at a live day (see markStarted): /init preloads every mode but the
+ * requested one without the player having seen them.
+ */
+async function loadState(userId: string, mode: GameMode, play: Play, preload = false): Promise<GetStateResponse> {
+  const { dateKey, archive } = play;
 
-  const usable = comments
-    .map((c: any) => ({ id: c.id as string, body: (c.body ?? "").toString().trim() }))
-    .filter((c: any) => {
-      if (!c.body) return false;
-      if (c.body === "[deleted]" || c.body === "[removed]") return false;
-      if (c.body.length < 25) return false;
+  // one HGETALL each for the user/mode and user/mode/day hashes
+  const [modeFields, day] = await Promise.all([readUserMode(userId, mode), readUserDay(userId, mode, dateKey)]);
+  const puzzle = await puzzleForDay(dateKey, mode, archive ? null : day);
 
-      const lower = c.body.toLowerCase();
-      if (lower.includes(`r/${subreddit.toLowerCase()}`)) return false;
-      if (lower.includes("this sub") || lower.includes("this subreddit")) return false;
-      if (lower.includes("i am a bot") || lower.includes("automod")) return false;
-      return true;
-    });
+  const history = archive ? await readArchiveHistory(userId, mode, dateKey) : day.history;
+  const modeIsLocked = archive ? false : day.committed;
+  const completedToday = archive ? history.outcome !== null : day.completed;
 
-  const pool = usable.length
-    ? usable.slice(0, 60)
-    : comments
-        .map((c: any) => ({ id: c.id as string, body: (c.body ?? "").toString().trim() }))
-        .filter((c: any) => c.body && c.body !== "[deleted]" && c.body !== "[removed]")
-        .slice(0, 60);
+  if (!archive && !preload && !completedToday && !day.startedAt) await markStarted(userId, mode, dateKey);
 
-  if (pool.length === 0) throw new Error(`No usable comments for post ${postId}`);
+  const stage = archive ? day.archiveStage : day.stage;
+  const guessesPerPuzzle = guessLimit(mode, (await readGameSettings()).guessesPerPuzzle);
 
-  const comment = pool[pickIndex(pool.length, seedFromString(`${dateKey}:${mode}:${subreddit}:comment`))];
+  const totalScore = Number(modeFields.score ?? 0);
+  const { streak, lastDateKey, freezes, freezesUsed } = playStreak(modeFields, dateKey, archive);
+  const lastPlayedDateKey = lastDateKey ?? undefined;
 
-  const puzzle: DailyPuzzle = {
-    dateKey,
-    mode,
-    subreddit,
-    postId,
-    postTitle,
-    postBody,
-    commentId: comment.id,
-    commentBody: comment.body,
+  return {
+    puzzle: toPuzzleView(puzzle, stage, completedToday),
+    archive,
+    modeLocked: mode,
+    modeIsLocked,
+    completedToday,
+    totalScore,
+    streak,
+    streakFreezes: freezes,
+    streakFreezesUsed: freezesUsed,
+    lastPlayedDateKey,
+    history,
+    guessesAllowed: guessesPerPuzzle,
+    guessesUsed: countGuessesUsed(history.attempts),
   };
-
-  await redis.set(cacheKey, JSON.stringify(puzzle));
-  await redis.expire(cacheKey, 60 * 60 * 48);
-  return puzzle;
 }
 
-export const game = new Hono();
-
-// GET /api/game/state?mode=...&dateKey=...
-game.get("/state", async (c) => {
-  const requestedMode = normalizeMode(c.req.query("mode"));
-  const dateKey = resolveDateKey(c.req.query("dateKey"));
+// GET /api/game/init?mode=...&dateKey=...
+// One round trip on load: who's playing, the day, and every mode's progress and state, so switching
+// modes needs no further request.
+game.get("/init", async (c) => {
+  const { mode: requestedMode, dateKey: requestedDateKey } = requireValid(validatePlayRequest(c.req.query()));
+  const dateKey = await resolveDateKey(requestedDateKey);
+  const play: Play = { dateKey, archive: dateKey < utcDateKeyOffset(-1) };
 
   const user = await reddit.getCurrentUser();
   const userId = user?.id ?? "anon";
 
-  const modeIsLocked = await readCommitted(userId, requestedMode, dateKey);
-  const completedToday = await readCompleted(userId, requestedMode, dateKey);
+  const [isModerator, settings, modes, loaded] = await Promise.all([
+    isCurrentUserModerator(),
+    readGameSettings(),
+    Promise.all(
+      GAME_MODES.map(async (mode): Promise<ModeStatus> => {
+        const day = await readUserDay(userId, mode, dateKey);
+        return { mode, committed: day.committed, completed: day.completed, outcome: day.history.outcome };
+      })
+    ),
+    Promise.all(
+      GAME_MODES.map((mode) =>
+        mode === requestedMode
+          ? loadState(userId, mode, play)
+          : loadState(userId, mode, play, true).catch(() => null) // the client falls back to /state
+      )
+    ),
+  ]);
+
+  const states: Partial<Record<GameMode, GetStateResponse>> = {};
+  GAME_MODES.forEach((mode, i) => {
+    const s = loaded[i];
+    if (s) states[mode] = s;
+  });
 
-  const puzzle = await buildDailyPuzzle(dateKey, requestedMode);
+  const payload: GameInitResponse = {
+    username: user?.username ?? null,
+    isModerator,
+    dateKey,
+    modes,
+    settings,
+    state: states[requestedMode]!,
+    states,
+  };
 
-  const totalScore = Number((await redis.get(kScore(userId, requestedMode))) ?? 0);
-  const streak = Number((await redis.get(kStreak(userId, requestedMode))) ?? 0);
-  const lastPlayedDateKey = (await redis.get(kLastDate(userId, requestedMode))) ?? undefined;
+  return c.json(payload);
+});
 
-  const payload: GetStateResponse = {
-    puzzle,
-    modeLocked: requestedMode,
-    modeIsLocked,
-    completedToday,
-    totalScore,
-    streak,
-    lastPlayedDateKey,
-  };
+// GET /api/game/state?mode=...&dateKey=...&archive=1
+game.get("/state", async (c) => {
+  const request = requireValid(validatePlayRequest(c.req.query()));
+  const requestedMode = request.mode;
+  const play = await resolvePlay(request);
+
+  const user = await reddit.getCurrentUser();
+  const payload = await loadState(user?.id ?? "anon", requestedMode, play);
 
   return c.json(payload);
 });
 
-// POST /api/game/lock  body: { mode, dateKey }
-game.post("/lock", async (c) => {
-  const body = (await c.req.json().catch(() => ({}))) as any;
-  const requestedMode = normalizeMode(body.mode);
-  const dateKey = resolveDateKey(body.dateKey);
+// POST /api/game/reveal  body: { mode, dateKey }
+game.post("/reveal", async (c) => {
+  const request = requireValid(validatePlayRequest(await readBody(c)));
+  const requestedMode = request.mode;
+  const { dateKey, archive } = await resolvePlay(request);
 
   const user = await reddit.getCurrentUser();
   const userId = user?.id ?? "anon";
 
-  if (!(await readCommitted(userId, requestedMode, dateKey))) {
-    await commitMode(userId, requestedMode, dateKey);
+  const day = await readUserDay(userId, requestedMode, dateKey);
+  const puzzle = await puzzleForDay(dateKey, requestedMode, archive ? null : day);
+
+  // archive replays never lock a mode
+  const completedToday = archive
+    ? (await readArchiveHistory(userId, requestedMode, dateKey)).outcome !== null
+    : day.completed;
+
+  if (!archive && !day.committed) await commitMode(userId, requestedMode, dateKey);
+
+  let stage = archive ? day.archiveStage : day.stage;
+  if (!completedToday && stage < 3) {
+    stage = stage === 1 ? 2 : 3;
+    await writeStage(userId, requestedMode, dateKey, archive, stage);
   }
 
-  const completedToday = await readCompleted(userId, requestedMode, dateKey);
+  const payload: RevealResponse = {
+    puzzle: toPuzzleView(puzzle, stage, completedToday),
+    modeLocked: requestedMode,
+    modeIsLocked: !archive,
+    completedToday,
+  };
 
-  return c.json({ modeLocked: requestedMode, modeIsLocked: true, completedToday });
+  return c.json(payload);
 });
 
 // POST /api/game/giveup  body: { mode, dateKey }
 game.post("/giveup", async (c) => {
-  const body = (await c.req.json().catch(() => ({}))) as any;
-  const requestedMode = normalizeMode(body.mode);
-  const dateKey = resolveDateKey(body.dateKey);
+  const request = requireValid(validatePlayRequest(await readBody(c)));
+  const requestedMode = request.mode;
+  const { dateKey, archive } = await resolvePlay(request);
 
   const user = await reddit.getCurrentUser();
   const userId = user?.id ?? "anon";
 
-  if (!(await readCommitted(userId, requestedMode, dateKey))) {
-    await commitMode(userId, requestedMode, dateKey);
+  if (archive) {
+    let history = await readArchiveHistory(userId, requestedMode, dateKey);
+    if (history.outcome !== null) throw alreadyCompleted(requestedMode, dateKey);
+    history = { ...history, outcome: "gaveup" };
+    await writeArchiveHistory(userId, requestedMode, dateKey, history);
+
+    const puzzle = await puzzleForDay(dateKey, requestedMode, null);
+
+    const payload: GiveUpResponse = {
+      modeLocked: requestedMode,
+      modeIsLocked: false,
+      completedToday: true,
+      answer: puzzle.subreddit,
+      history,
+    };
+    return c.json(payload);
   }
 
-  if (!(await readCompleted(userId, requestedMode, dateKey))) {
-    await setCompleted(userId, requestedMode, dateKey);
+  const day = await readUserDay(userId, requestedMode, dateKey);
+  if (day.completed) throw alreadyCompleted(requestedMode, dateKey);
+  if (!day.committed) await commitMode(userId, requestedMode, dateKey);
+
+  const current = await puzzleForDay(dateKey, requestedMode, null);
+
+  // same guard as /guess: only one request may move the day from in-progress to finished,
+  // and the streak reset lands in the same transaction
+  await readUserMode(userId, requestedMode); // migrates first; the plan below reads it raw
+  const dayKey = kUserDay(userId, requestedMode, dateKey);
+  const settled = await watchAndWrite([dayKey, kUserMode(userId, requestedMode)], async () => {
+    const before = (await peekUserDay(userId, requestedMode, dateKey)).history;
+    if (before.outcome !== null) return { result: { history: before, finished: false } };
+
+    const streakChange = planStreakResult(await peekUserMode(userId, requestedMode), dateKey, false);
+    const history: DayHistory = { ...before, outcome: "gaveup", streak: streakChange.update.streak };
+    return {
+      result: { history, finished: true },
+      writes: async (tx) => {
+        await tx.hSet(dayKey, {
+          history: JSON.stringify(history),
+          completed: "1",
+          puzzleVersion: String(current.version ?? 0),
+        });
+        await tx.expire(dayKey, DAY_TTL_SECONDS);
+        await queueStreakWrites(tx, userId, requestedMode, streakChange);
+      },
+    };
+  });
+
+  const { history } = settled;
+  if (settled.finished) {
+    await recordResult(userId, requestedMode, dateKey, { outcome: "gaveup", points: 0 });
   }
 
-  const puzzle = await buildDailyPuzzle(dateKey, requestedMode);
+  const puzzle = await puzzleForDay(dateKey, requestedMode, await readUserDay(userId, requestedMode, dateKey));
 
-  return c.json({
+  const payload: GiveUpResponse = {
     modeLocked: requestedMode,
     modeIsLocked: true,
     completedToday: true,
     answer: puzzle.subreddit,
-  });
+    history,
+  };
+
+  return c.json(payload);
 });
 
-// POST /api/game/guess  body: { subredditGuess, stageUsed, mode, dateKey }
+// POST /api/game/guess  body: { subredditGuess, mode, dateKey }
 game.post("/guess", async (c) => {
-  const body = (await c.req.json().catch(() => ({}))) as any;
+  const request = requireValid(validateGuessRequest(await readBody(c)));
 
-  const subredditGuess: string = String(body.subredditGuess ?? "");
-  const stageUsed: 1 | 2 | 3 = body.stageUsed ?? 3;
-  const requestedMode = normalizeMode(body.mode);
-  const dateKey = resolveDateKey(body.dateKey);
+  const { subredditGuess } = request;
+  const requestedMode = request.mode;
+  const { dateKey, archive } = await resolvePlay(request);
 
   const user = await reddit.getCurrentUser();
   const userId = user?.id ?? "anon";
+  if (user) await enforceRateLimit(userId, "guess", GUESS_RATE);
 
-  // lock after first guess
-  if (!(await readCommitted(userId, requestedMode, dateKey))) {
-    await commitMode(userId, requestedMode, dateKey);
-  }
+  const day = await readUserDay(userId, requestedMode, dateKey);
+  const prior = archive ? await readArchiveHistory(userId, requestedMode, dateKey) : day.history;
+  if (prior.outcome !== null) throw alreadyCompleted(requestedMode, dateKey);
 
-  const puzzle = await buildDailyPuzzle(dateKey, requestedMode);
+  // the stage is whatever /reveal advanced it to; the client never gets to claim one
+  const stageUsed = archive ? day.archiveStage : day.stage;
+  const settings = await readGameSettings();
+  const guessesPerPuzzle = guessLimit(requestedMode, settings.guessesPerPuzzle);
+  const { wrongGuessPenalty } = settings;
+
+  const puzzle = await puzzleForDay(dateKey, requestedMode, archive ? null : day);
 
   const guess = normalizeGuess(subredditGuess);
   const answer = puzzle.subreddit;
-  const correct = guess.toLowerCase() === answer.toLowerCase();
-
-  const alreadyCompleted = await readCompleted(userId, requestedMode, dateKey);
-
-  // final loss ends the mode too
-  const isFinalLoss = !correct && stageUsed === 3;
-  const finishesNow = correct || isFinalLoss;
-
-  // award only once/day/mode, only on win
-  const playedKey = kPlayed(userId, requestedMode, dateKey);
-  const alreadyAwarded = (await redis.get(playedKey)) === "1";
-
-  let pointsAwarded = 0;
-
-  if (!alreadyCompleted) {
-    if (correct && !alreadyAwarded) {
-      pointsAwarded = stageUsed === 1 ? 100 : stageUsed === 2 ? 60 : 30;
-
-      await redis.set(playedKey, "1");
-      await redis.expire(playedKey, 60 * 60 * 48);
-
-      const prevScore = Number((await redis.get(kScore(userId, requestedMode))) ?? 0);
-      await redis.set(kScore(userId, requestedMode), String(prevScore + pointsAwarded));
+  let verdict: GuessVerdict;
+  if (puzzle.choices) {
+    // only the offered options count; anything else is rejected like an unknown sub
+    const choice = puzzle.choices.find((s) => s.toLowerCase() === guess.toLowerCase());
+    verdict = !choice ? "unknown" : choice === answer ? "exact" : "wrong";
+  } else {
+    verdict = gradeGuess(guess, answer, await readAliases(answer));
+    // a real sub that merely looks like the answer (pics/pies) is a wrong answer, not a typo
+    if (verdict === "near" && (await subredditExists(guess))) verdict = "wrong";
+    else if (verdict === "wrong" && !(await subredditExists(guess))) verdict = "unknown";
+  }
 
-      // streak increments only on win
-      const lastDate = (await redis.get(kLastDate(userId, requestedMode))) ?? "";
-      const prevStreak = Number((await redis.get(kStreak(userId, requestedMode))) ?? 0);
+  const priorUsed = countGuessesUsed(prior.attempts);
+  const repeated = prior.attempts.some((a) => a.guess.toLowerCase() === guess.toLowerCase());
+
+  // guessing a subreddit that doesn't exist (or one already tried) is rejected outright:
+  // no lock, no guess spent, nothing recorded
+  if (verdict === "unknown" || repeated) {
+    const modeFields = await readUserMode(userId, requestedMode);
+    const payload: GuessResponse = {
+      correct: false,
+      verdict,
+      stageUsed,
+      pointsAwarded: 0,
+      totalScore: Number(modeFields.score ?? 0),
+      streak: playStreak(modeFields, dateKey, archive).streak,
+      modeLocked: requestedMode,
+      modeIsLocked: archive ? false : day.committed,
+      completedToday: false,
+      history: prior,
+      guessesLeft: Math.max(0, guessesPerPuzzle - priorUsed),
+    };
+    return c.json(payload);
+  }
 
-      // "yesterday" relative to the *dateKey* (string) is tricky on server.
-      // We keep streak logic based on UTC day boundary for safety.
-      // (Streak is still per-mode and consistent; daily puzzle boundary is client-local.)
-      const yesterday = utcDateKey(new Date(Date.now() - 24 * 60 * 60 * 1000));
-      const newStreak = lastDate === yesterday ? prevStreak + 1 : 1;
+  const correct = verdict === "exact";
+
+  // archive replays only record their own history: no lock, points, streak or leaderboard
+  if (archive) {
+    const used = priorUsed + (usesGuess(verdict, prior.attempts) ? 1 : 0);
+    const guessesLeft = Math.max(0, guessesPerPuzzle - used);
+    // running out of guesses ends the puzzle too
+    const isFinalLoss = !correct && guessesLeft === 0;
+
+    const history: DayHistory = {
+      ...prior,
+      attempts: [...prior.attempts, { guess, stage: stageUsed, verdict }],
+      ...(correct ? { outcome: "won" as const, solvedStage: stageUsed } : {}),
+      ...(isFinalLoss ? { outcome: "lost" as const } : {}),
+    };
+    await writeArchiveHistory(userId, requestedMode, dateKey, history);
+
+    const modeFields = await readUserMode(userId, requestedMode);
+    const payload: GuessResponse = {
+      correct,
+      verdict,
+      stageUsed,
+      pointsAwarded: 0,
+      ...(history.outcome !== null ? { answer } : {}),
+      totalScore: Number(modeFields.score ?? 0),
+      streak: playStreak(modeFields, dateKey, archive).streak,
+      modeLocked: requestedMode,
+      modeIsLocked: false,
+      completedToday: history.outcome !== null,
+      history,
+      guessesLeft,
+    };
+    return c.json(payload);
+  }
 
-      await redis.set(kStreak(userId, requestedMode), String(newStreak));
-      await redis.set(kLastDate(userId, requestedMode), dateKey);
+  // lock after first guess
+  if (!day.committed) await commitMode(userId, requestedMode, dateKey);
+
+  // Everything a guess changes moves in one transaction over the day and user/mode hashes:
+  // attempts, outcome, completed flag, score and streak. Two concurrent guesses can't both
+  // finish the puzzle, spend the same guess or get paid, and a failure can't pay without
+  // updating the streak.
+  await readUserMode(userId, requestedMode); // migrates first; the plan below reads it raw
+  const dayKey = kUserDay(userId, requestedMode, dateKey);
+  const modeKey = kUserMode(userId, requestedMode);
+  const settled = await watchAndWrite([dayKey, modeKey], async () => {
+    const before = (await peekUserDay(userId, requestedMode, dateKey)).history;
+    const usedBefore = countGuessesUsed(before.attempts);
+    const duplicate = before.attempts.some((a) => a.guess.toLowerCase() === guess.toLowerCase());
+
+    if (before.outcome !== null || duplicate) {
+      return {
+        result: {
+          history: before,
+          finished: false,
+          pointsAwarded: 0,
+          guessesLeft: Math.max(0, guessesPerPuzzle - usedBefore),
+          streakUpdate: null,
+        },
+      };
     }
 
-    if (finishesNow) {
-      await setCompleted(userId, requestedMode, dateKey);
+    const used = usedBefore + (usesGuess(verdict, before.attempts) ? 1 : 0);
+    const lost = !correct && used >= guessesPerPuzzle;
+    // every earlier guess that spent a guess was wrong
+    const pointsAwarded = correct
+      ? Math.max(0, pointsForStage(requestedMode, stageUsed) - usedBefore * wrongGuessPenalty)
+      : 0;
+
+    const finished = correct || lost;
+    // counted against the puzzle's own dateKey, so "yesterday" follows the player's day
+    const streakChange = finished
+      ? planStreakResult(await peekUserMode(userId, requestedMode), dateKey, correct)
+      : null;
+
+    const history: DayHistory = {
+      ...before,
+      attempts: [...before.attempts, { guess, stage: stageUsed, verdict }],
+      ...(correct ? { outcome: "won" as const, solvedStage: stageUsed } : {}),
+      ...(lost ? { outcome: "lost" as const } : {}),
+      ...(streakChange ? { streak: streakChange.update.streak } : {}),
+    };
+
+    return {
+      result: {
+        history,
+        finished,
+        pointsAwarded,
+        guessesLeft: Math.max(0, guessesPerPuzzle - used),
+        streakUpdate: streakChange?.update ?? null,
+      },
+      writes: async (tx) => {
+        await tx.hSet(dayKey, {
+          history: JSON.stringify(history),
+          ...(finished ? { completed: "1", puzzleVersion: String(puzzle.version ?? 0) } : {}),
+        });
+        await tx.expire(dayKey, DAY_TTL_SECONDS);
+        if (pointsAwarded > 0) await tx.hIncrBy(modeKey, "score", pointsAwarded);
+        if (streakChange) await queueStreakWrites(tx, userId, requestedMode, streakChange);
+      },
+    };
+  });
+
+  const { history, pointsAwarded, guessesLeft, streakUpdate } = settled;
+
+  // only the request whose transaction finished the puzzle gets here
+  if (settled.finished) {
+    await recordResult(
+      userId,
+      requestedMode,
+      dateKey,
+      correct
+        ? { outcome: "won", solvedStage: stageUsed, points: pointsAwarded }
+        : { outcome: "lost", points: 0 }
+    );
+
+    if (correct && user) {
+      await recordWin({
+        userId,
+        username: user.username,
+        mode: requestedMode,
+        dateKey,
+        points: pointsAwarded,
+        stageUsed,
+        solveSeconds: solveSeconds(day.startedAt),
+      });
     }
   }
 
-  const totalScore = Number((await redis.get(kScore(userId, requestedMode))) ?? 0);
-  const streak = Number((await redis.get(kStreak(userId, requestedMode))) ?? 0);
-  const completedToday = await readCompleted(userId, requestedMode, dateKey);
+  const modeFields = await readUserMode(userId, requestedMode);
+  const totalScore = Number(modeFields.score ?? 0);
+  const { streak } = streakFromFields(modeFields, dateKey);
+  const completedToday = history.outcome !== null;
 
   const payload: GuessResponse = {
     correct,
+    verdict,
     stageUsed,
-    pointsAwarded: correct ? pointsAwarded : 0,
-    answer,
+    pointsAwarded,
+    ...(completedToday ? { answer } : {}),
     totalScore,
     streak,
     modeLocked: requestedMode,
     modeIsLocked: true,
     completedToday,
+    history,
+    guessesLeft,
+    ...(streakUpdate?.freeze ? { streakFreeze: streakUpdate.freeze } : {}),
   };
 
   return c.json(payload);
 });
+
+// POST /api/game/share  body: { mode, dateKey }
+game.post("/share", async (c) => {
+  const request = requireValid(validatePlayRequest(await readBody(c)));
+  const requestedMode = request.mode;
+  const { dateKey, archive } = await resolvePlay(request);
+
+  if (archive) {
+    return c.json<ErrorResponse>(
+      { status: "error", code: "CONFLICT", message: "Archive replays can't be shared." },
+      409
+    );
+  }
+
+  const user = await reddit.getCurrentUser();
+  if (!user) {
+    return c.json<ErrorResponse>(
+      { status: "error", code: "LOGIN_REQUIRED", message: "Log in to share your result." },
+      401
+    );
+  }
+  const userId = user.id;
+  await enforceRateLimit(userId, "share", SHARE_RATE);
+
+  // the day's own post when it has one, else the post the game is running in
+  const postId = (await readDailyPostId(dateKey)) ?? context.postId;
+  if (!postId) {
+    return c.json<ErrorResponse>({ status: "error", code: "INVALID_REQUEST", message: "postId is required" }, 400);
+  }
+
+  const day = await readUserDay(userId, requestedMode, dateKey);
+  if (!day.completed) {
+    return c.json<ErrorResponse>(
+      { status: "error", code: "CONFLICT", message: "Finish the puzzle before sharing." },
+      409
+    );
+  }
+
+  const history = day.history;
+
+  // claim the share slot first so double-taps can't post twice
+  const sharesKey = kShares(requestedMode, dateKey);
+  const claimed = await redis.hSetNX(sharesKey, userId, "pending");
+  if (!claimed) {
+    return c.json<ErrorResponse>(
+      { status: "error", code: "CONFLICT", message: "You already shared this result." },
+      409
+    );
+  }
+  await redis.expire(sharesKey, 60 * 60 * 48);
+
+  try {
+    const comment = await reddit.submitComment({
+      id: postId as `t3_${string}`,
+      text: formatShareText(dateKey, requestedMode, history),
+      runAs: "USER",
+    });
+
+    await redis.hSet(sharesKey, { [userId]: comment.id });
+    await writeHistory(userId, requestedMode, dateKey, { ...history, sharedCommentId: comment.id });
+
+    const payload: ShareResponse = {
+      commentId: comment.id,
+      commentUrl: `https://www.reddit.com${comment.permalink}`,
+    };
+    return c.json(payload);
+  } catch (error) {
+    await redis.hDel(sharesKey, [userId]);
+    console.error(`Share Error for ${userId} ${requestedMode}/${dateKey}:`, error);
+    return c.json<ErrorResponse>(
+      { status: "error", code: "INTERNAL", message: "Couldn't post your comment. Try again." },
+      500
+    );
+  }
+});
+
+// GET /api/game/leaderboard?mode=...&dateKey=...&scope=daily|alltime
+game.get("/leaderboard", async (c) => {
+  const requestedMode = requireValid(validateMode(c.req.query("mode")));
+  const dateKey = await resolveDateKey(c.req.query("dateKey"));
+  const scope = normalizeScope(c.req.query("scope"));
+
+  const user = await reddit.getCurrentUser();
+  const userId = user?.id ?? "anon";
+
+  const { entries, me, since } = await readLeaderboard({
+    mode: requestedMode,
+    dateKey,
+    scope,
+    limit: 10,
+    userId,
+  });
+
+  const payload: GetLeaderboardResponse = {
+    mode: requestedMode,
+    dateKey,
+    scope,
+    entries,
+    me,
+    ...(since ? { since } : {}),
+  };
+
+  return c.json(payload);
+});
+
+// GET /api/game/suggest?q=...
+game.get("/suggest", async (c) => {
+  const query = normalizeGuess(c.req.query("q") ?? "");
+
+  const payload: SuggestResponse = {
+    query,
+    suggestions: query.length >= 2 ? await suggestSubreddits(query, 8) : [],
+  };
+
+  return c.json(payload);
+});
+
+// GET /api/game/archive?mode=...
+game.get("/archive", async (c) => {
+  const requestedMode = requireValid(validateMode(c.req.query("mode")));
+
+  const user = await reddit.getCurrentUser();
+  const userId = user?.id ?? "anon";
+
+  // everything before the live +/- 1 day window
+  const dateKeys = await listArchive(requestedMode, utcDateKeyOffset(-1), 60);
+  const histories = await readArchiveHistories(userId, requestedMode, dateKeys);
+
+  const payload: ArchiveResponse = {
+    mode: requestedMode,
+    entries: dateKeys.map((dateKey, i) => ({ dateKey, outcome: histories[i]?.outcome ?? null })),
+  };
+
+  return c.json(payload);
+});
+
+// GET /api/game/stats?mode=...&dateKey=...
+game.get("/stats", async (c) => {
+  const requestedMode = requireValid(validateMode(c.req.query("mode")));
+  const dateKey = await resolveDateKey(c.req.query("dateKey"));
+
+  const user = await reddit.getCurrentUser();
+  const userId = user?.id ?? "anon";
+
+  const streak = await readStreak(userId, requestedMode, dateKey);
+  const payload: GetStatsResponse = await readStats(userId, requestedMode, dateKey, streak);
+
+  return c.json(payload);
+});
\ No newline at end of file
@@ -1,13 +1,27 @@
 import { Hono } from 'hono';
 import type { UiResponse } from '@devvit/web/shared';
 import { context } from '@devvit/web/server';
-import { createPost } from '../core/post';
+import { utcDateKey } from '../core/dateKey';
+import { GAME_MODES } from '../../shared/api';
+import { readSafetyLog } from '../core/contentSafety';
+import { createDailyPost } from '../core/post';
+import { readCachedPuzzle } from '../core/puzzle';
+import { readAuditLog } from '../core/puzzleOverride';
+import {
+  pregenerateDateKeys,
+  readGenerationStatus,
+} from '../core/pregenerate';
+import {
+  formatSubredditList,
+  readSubredditLists,
+} from '../core/subredditLists';
 
 export const menu = new Hono();
 
 menu.post('/post-create', async (c) => {
   try {
-    const post = await createPost();
+    // today's (UTC) daily post; re-opens it if the scheduler already made one
+    const post = await createDailyPost(utcDateKey());
 
     return c.json<UiResponse>(
       {
@@ -25,3 +39,215 @@ menu.post('/post-create', async (c) => {
     );
   }
 });
+
+menu.post('/subreddit-lists', async (c) => {
+  const lists = await Promise.all(GAME_MODES.map((m) => readSubredditLists(m)));
+
+  const fields = GAME_MODES.flatMap((m, i) => [
+    {
+      type: 'paragraph' as const,
+      name: `${m}Allow`,
+      label: `${m.toUpperCase()} allowlist`,
+      helpText:
+        'If set, puzzles for this mode only use these subreddits. One per line or comma-separated.',
+      defaultValue: formatSubredditList(lists[i]!.allow),
+    },
+    {
+      type: 'paragraph' as const,
+      name: `${m}Block`,
+      label: `${m.toUpperCase()} blocklist`,
+      helpText: 'These subreddits are never picked for this mode.',
+      defaultValue: formatSubredditList(lists[i]!.block),
+    },
+  ]);
+
+  return c.json<UiResponse>(
+    {
+      showForm: {
+        name: 'subredditListsForm',
+        form: {
+          title: 'Puzzle subreddit lists',
+          description:
+            'Changes apply to puzzles generated from now on. Already generated puzzles are kept.',
+          acceptLabel: 'Save',
+          fields,
+        },
+      },
+    },
+    200
+  );
+});
+
+menu.post('/generation-status', async (c) => {
+  const dateKeys = pregenerateDateKeys();
+  const statuses = await Promise.all(dateKeys.map((dk) => readGenerationStatus(dk)));
+  const safetyLogs = await Promise.all(
+    dateKeys.map((dk) => Promise.all(GAME_MODES.map((m) => readSafetyLog(dk, m))))
+  );
+
+  const fields = dateKeys.flatMap((dk, i) => {
+    const lines = GAME_MODES.map((m) => {
+      const s = statuses[i]![m];
+      if (!s) return `${m.toUpperCase()}: not generated yet`;
+      if (s.status === 'ready') {
+        return `${m.toUpperCase()}: ready (r/${s.subreddit}, ${s.attempts} attempt(s), ${s.updatedAt})`;
+      }
+      return `${m.toUpperCase()}: FAILED after ${s.attempts} attempt(s) — ${s.error} (${s.updatedAt})`;
+    });
+    // why the content-safety filter passed over candidate clues, newest last
+    const skipped = GAME_MODES.flatMap((m, j) =>
+      safetyLogs[i]![j]!.map((r) => `${m.toUpperCase()}: ${r.kind} ${r.id} — ${r.reason}`)
+    );
+    return [
+      {
+        type: 'paragraph' as const,
+        name: `status-${dk}`,
+        label: dk,
+        disabled: true,
+        defaultValue: lines.join('\n'),
+      },
+      {
+        type: 'paragraph' as const,
+        name: `safety-${dk}`,
+        label: `${dk} skipped clues`,
+        disabled: true,
+        defaultValue: skipped.length ? skipped.join('\n') : 'None',
+      },
+    ];
+  });
+
+  return c.json<UiResponse>(
+    {
+      showForm: {
+        name: 'generationStatusForm',
+        form: {
+          title: 'Puzzle generation status',
+          description:
+            'Puzzles are pre-generated every 6 hours. Run it now to retry failures.',
+          acceptLabel: 'Run now',
+          cancelLabel: 'Close',
+          fields,
+        },
+      },
+    },
+    200
+  );
+});
+
+menu.post('/answer-aliases', async (c) => {
+  const today = utcDateKey();
+  const puzzles = await Promise.all(GAME_MODES.map((m) => readCachedPuzzle(today, m)));
+  const answers = puzzles
+    .map((p, i) => (p ? `${GAME_MODES[i]!.toUpperCase()}: r/${p.subreddit}` : null))
+    .filter((x): x is string => !!x);
+
+  return c.json<UiResponse>(
+    {
+      showForm: {
+        name: 'aliasLookupForm',
+        form: {
+          title: 'Answer aliases',
+          description: answers.length
+            ? `Today's answers (UTC ${today}) — ${answers.join(', ')}`
+            : 'Pick the subreddit whose aliases you want to edit.',
+          acceptLabel: 'Next',
+          fields: [
+            {
+              type: 'string',
+              name: 'subreddit',
+              label: 'Answer subreddit',
+              required: true,
+              placeholder: 'e.g. pics',
+            },
+          ],
+        },
+      },
+    },
+    200
+  );
+});
+
+function excerpt(text: string, max = 80): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+menu.post('/puzzle-override', async (c) => {
+  const dateKeys = pregenerateDateKeys();
+  const puzzles = await Promise.all(
+    dateKeys.map((dk) => Promise.all(GAME_MODES.map((m) => readCachedPuzzle(dk, m))))
+  );
+  const audit = await readAuditLog(10);
+
+  const current = dateKeys.flatMap((dk, i) =>
+    GAME_MODES.map((m, j) => {
+      const p = puzzles[i]![j];
+      if (!p) return `${dk} ${m.toUpperCase()}: not generated yet`;
+      const clue = p.media ? 'image post' : `"${excerpt(p.commentBody)}"`;
+      return `${dk} ${m.toUpperCase()} (v${p.version ?? 0}): r/${p.subreddit} — ${clue} — ${excerpt(p.postTitle, 60)}`;
+    })
+  );
+
+  const history = audit.map(
+    (a) =>
+      `${a.at.slice(0, 16)} u/${a.moderator} ${a.action} ${a.dateKey} ${a.mode.toUpperCase()}: r/${a.from ?? '-'} → r/${a.to}`
+  );
+
+  return c.json<UiResponse>(
+    {
+      showForm: {
+        name: 'puzzleOverrideForm',
+        form: {
+          title: 'Override a puzzle',
+          description:
+            'Reroll a puzzle with a new seed, or build one from a post or comment link. Players who already finished the old one keep their result.',
+          acceptLabel: 'Apply',
+          fields: [
+            {
+              type: 'paragraph',
+              name: 'current',
+              label: 'Current puzzles (UTC)',
+              disabled: true,
+              defaultValue: current.join('\n'),
+            },
+            {
+              type: 'select',
+              name: 'target',
+              label: 'Puzzle',
+              required: true,
+              options: dateKeys.flatMap((dk) =>
+                GAME_MODES.map((m) => ({ label: `${dk} · ${m.toUpperCase()}`, value: `${dk}|${m}` }))
+              ),
+            },
+            {
+              type: 'select',
+              name: 'action',
+              label: 'Action',
+              required: true,
+              defaultValue: ['reroll'],
+              options: [
+                { label: 'Reroll (new seed)', value: 'reroll' },
+                { label: 'Use the link below', value: 'author' },
+              ],
+            },
+            {
+              type: 'string',
+              name: 'url',
+              label: 'Post or comment link',
+              helpText: 'Only used with "Use the link below". A comment link picks that exact comment.',
+              placeholder: 'https://www.reddit.com/r/…/comments/…',
+            },
+            {
+              type: 'paragraph',
+              name: 'audit',
+              label: 'Recent overrides',
+              disabled: true,
+              defaultValue: history.length ? history.join('\n') : 'None yet',
+            },
+          ],
+        },
+      },
+    },
+    200
+  );
+});
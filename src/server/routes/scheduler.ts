@@ -0,0 +1,56 @@
+import { Hono } from 'hono';
+import type { TaskRequest, TaskResponse } from '@devvit/web/server';
+import { scheduler } from '@devvit/web/server';
+import { utcDateKey } from '../core/dateKey';
+import { createDailyPost } from '../core/post';
+import { pregeneratePuzzles } from '../core/pregenerate';
+
+type PregenerateJobData = {
+  retry?: number;
+};
+
+const MAX_RETRIES = 4;
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+
+export const schedulerRoutes = new Hono();
+
+schedulerRoutes.post('/pregenerate-puzzles', async (c) => {
+  const input = await c.req.json<TaskRequest<PregenerateJobData | undefined>>();
+  const retry = input.data?.retry ?? 0;
+
+  const results = await pregeneratePuzzles();
+  const failed = results.filter((r) => r.status.status === 'failed');
+
+  if (failed.length > 0) {
+    const labels = failed.map((r) => `${r.dateKey}/${r.mode}`).join(', ');
+
+    if (retry < MAX_RETRIES) {
+      try {
+        await scheduler.runJob({
+          name: 'pregenerate-puzzles-once',
+          data: { retry: retry + 1 },
+          runAt: new Date(Date.now() + RETRY_DELAY_MS),
+        });
+        console.error(`Pregenerate failed for ${labels}; retry ${retry + 1} scheduled`);
+      } catch (error) {
+        console.error(`Error scheduling pregenerate retry: ${error}`);
+      }
+    } else {
+      console.error(`Pregenerate failed for ${labels}; giving up until next cron run`);
+    }
+  }
+
+  return c.json<TaskResponse>({}, 200);
+});
+
+schedulerRoutes.post('/create-daily-post', async (c) => {
+  const dateKey = utcDateKey();
+
+  try {
+    await createDailyPost(dateKey);
+  } catch (error) {
+    console.error(`Error creating daily post for ${dateKey}: ${error}`);
+  }
+
+  return c.json<TaskResponse>({}, 200);
+});
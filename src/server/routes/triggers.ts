@@ -1,13 +1,14 @@
 import { Hono } from 'hono';
 import type { OnAppInstallRequest, TriggerResponse } from '@devvit/web/shared';
 import { context } from '@devvit/web/server';
-import { createPost } from '../core/post';
+import { utcDateKey } from '../core/dateKey';
+import { createDailyPost } from '../core/post';
 
 export const triggers = new Hono();
 
 triggers.post('/on-app-install', async (c) => {
   try {
-    const post = await createPost();
+    const post = await createDailyPost(utcDateKey());
     const input = await c.req.json<OnAppInstallRequest>();
 
     return c.json<TriggerResponse>(
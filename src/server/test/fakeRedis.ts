@@ -0,0 +1,239 @@
+// src/server/test/fakeRedis.ts
+
+// In-memory stand-in for the Devvit redis client, covering the commands the server uses.
+// WATCH/MULTI/EXEC behave like Redis: any write to a watched key after WATCH makes EXEC
+// return no replies, so tests can race real transactions against each other.
+// Every call awaits once before touching data, so concurrent callers interleave.
+
+type Value = string | Map<string, string> | Map<string, number>;
+
+export type FakeRedis = ReturnType<typeof createFakeRedis>;
+
+export function createFakeRedis() {
+  const data = new Map<string, Value>();
+  const versions = new Map<string, number>();
+
+  const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+  const touch = (key: string) => versions.set(key, (versions.get(key) ?? 0) + 1);
+
+  function hash(key: string): Map<string, string> {
+    let h = data.get(key);
+    if (!(h instanceof Map)) {
+      h = new Map<string, string>();
+      data.set(key, h);
+    }
+    return h as Map<string, string>;
+  }
+  function zset(key: string): Map<string, number> {
+    let z = data.get(key);
+    if (!(z instanceof Map)) {
+      z = new Map<string, number>();
+      data.set(key, z);
+    }
+    return z as Map<string, number>;
+  }
+
+  // synchronous commands, shared by the client and queued transaction writes
+  const ops = {
+    get: (key: string) => {
+      const v = data.get(key);
+      return typeof v === "string" ? v : undefined;
+    },
+    set: (key: string, value: string, options?: { nx?: boolean }) => {
+      if (options?.nx && data.has(key)) return "";
+      data.set(key, value);
+      touch(key);
+      return "OK";
+    },
+    del: (...keys: string[]) => {
+      for (const k of keys) {
+        if (data.delete(k)) touch(k);
+      }
+    },
+    incrBy: (key: string, by: number) => {
+      const n = Number(ops.get(key) ?? 0) + by;
+      data.set(key, String(n));
+      touch(key);
+      return n;
+    },
+    expire: (_key: string, _seconds: number) => {},
+    hSet: (key: string, fields: Record<string, string>) => {
+      const h = hash(key);
+      let added = 0;
+      for (const [f, v] of Object.entries(fields)) {
+        if (!h.has(f)) added++;
+        h.set(f, v);
+      }
+      touch(key);
+      return added;
+    },
+    hSetNX: (key: string, field: string, value: string) => {
+      const h = hash(key);
+      if (h.has(field)) return 0;
+      h.set(field, value);
+      touch(key);
+      return 1;
+    },
+    hIncrBy: (key: string, field: string, by: number) => {
+      const h = hash(key);
+      const n = Number(h.get(field) ?? 0) + by;
+      h.set(field, String(n));
+      touch(key);
+      return n;
+    },
+    hDel: (key: string, fields: string[]) => {
+      const h = hash(key);
+      fields.forEach((f) => h.delete(f));
+      touch(key);
+    },
+    zAdd: (key: string, ...members: { member: string; score: number }[]) => {
+      const z = zset(key);
+      members.forEach((m) => z.set(m.member, m.score));
+      touch(key);
+    },
+    zIncrBy: (key: string, member: string, by: number) => {
+      const z = zset(key);
+      const n = (z.get(member) ?? 0) + by;
+      z.set(member, n);
+      touch(key);
+      return n;
+    },
+  };
+
+  const client = {
+    async get(key: string) {
+      await tick();
+      return ops.get(key);
+    },
+    async set(key: string, value: string, options?: { nx?: boolean; expiration?: Date }) {
+      await tick();
+      return ops.set(key, value, options);
+    },
+    async del(...keys: string[]) {
+      await tick();
+      ops.del(...keys);
+    },
+    async mGet(keys: string[]) {
+      await tick();
+      return keys.map((k) => ops.get(k) ?? null);
+    },
+    async incrBy(key: string, by: number) {
+      await tick();
+      return ops.incrBy(key, by);
+    },
+    async expire(key: string, seconds: number) {
+      await tick();
+      ops.expire(key, seconds);
+    },
+    async hGetAll(key: string): Promise<Record<string, string>> {
+      await tick();
+      const h = data.get(key);
+      return h instanceof Map ? Object.fromEntries(h as Map<string, string>) : {};
+    },
+    async hGet(key: string, field: string) {
+      await tick();
+      return hash(key).get(field);
+    },
+    async hMGet(key: string, fields: string[]) {
+      await tick();
+      const h = hash(key);
+      return fields.map((f) => h.get(f) ?? null);
+    },
+    async hSet(key: string, fields: Record<string, string>) {
+      await tick();
+      return ops.hSet(key, fields);
+    },
+    async hSetNX(key: string, field: string, value: string) {
+      await tick();
+      return ops.hSetNX(key, field, value);
+    },
+    async hIncrBy(key: string, field: string, by: number) {
+      await tick();
+      return ops.hIncrBy(key, field, by);
+    },
+    async hDel(key: string, fields: string[]) {
+      await tick();
+      ops.hDel(key, fields);
+    },
+    async zAdd(key: string, ...members: { member: string; score: number }[]) {
+      await tick();
+      ops.zAdd(key, ...members);
+    },
+    async zIncrBy(key: string, member: string, by: number) {
+      await tick();
+      return ops.zIncrBy(key, member, by);
+    },
+    async zScore(key: string, member: string) {
+      await tick();
+      return zset(key).get(member);
+    },
+
+    async watch(...keys: string[]) {
+      await tick();
+      const watched = new Map(keys.map((k) => [k, versions.get(k) ?? 0]));
+      const queued: (() => unknown)[] = [];
+      let inMulti = false;
+
+      const queue = (run: () => unknown) => {
+        if (!inMulti) throw new Error("fake redis: transaction writes need MULTI first");
+        queued.push(run);
+        return tx;
+      };
+
+      const tx = {
+        async multi() {
+          inMulti = true;
+        },
+        async exec(): Promise<unknown[]> {
+          await tick();
+          const conflicted = [...watched].some(([k, v]) => (versions.get(k) ?? 0) !== v);
+          if (conflicted) return [];
+          return queued.map((run) => run());
+        },
+        async unwatch() {
+          watched.clear();
+          return tx;
+        },
+        async discard() {
+          watched.clear();
+          queued.length = 0;
+          inMulti = false;
+        },
+        async set(key: string, value: string, options?: { nx?: boolean }) {
+          return queue(() => ops.set(key, value, options));
+        },
+        async del(...keys: string[]) {
+          return queue(() => ops.del(...keys));
+        },
+        async expire(key: string, seconds: number) {
+          return queue(() => ops.expire(key, seconds));
+        },
+        async incrBy(key: string, by: number) {
+          return queue(() => ops.incrBy(key, by));
+        },
+        async hSet(key: string, fields: Record<string, string>) {
+          return queue(() => ops.hSet(key, fields));
+        },
+        async hIncrBy(key: string, field: string, by: number) {
+          return queue(() => ops.hIncrBy(key, field, by));
+        },
+        async zAdd(key: string, ...members: { member: string; score: number }[]) {
+          return queue(() => ops.zAdd(key, ...members));
+        },
+      };
+      return tx;
+    },
+
+    /** Test helpers, not part of the Devvit client. */
+    reset() {
+      data.clear();
+      versions.clear();
+    },
+    dump(key: string) {
+      const v = data.get(key);
+      return v instanceof Map ? Object.fromEntries(v) : v;
+    },
+  };
+
+  return client;
+}
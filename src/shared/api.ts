@@ -1,28 +1,39 @@
 // src/shared/api.ts
+import {
+  ApiError,
+  isErrorResponse,
+  validateGuessRequest,
+  validatePlayRequest,
+  type Validation,
+} from "./validation";
 
-export type GameMode = "easy" | "medium" | "hard";
+// in display order; every list of modes (menus, /init, pregeneration) comes from here
+export const GAME_MODES = ["easy", "medium", "hard", "thread", "image", "choice"] as const;
+export type GameMode = (typeof GAME_MODES)[number];
 
 // --------------------
-// Template counter API types (keeps routes/api.ts happy)
+// Errors: every non-2xx reply from /api/* carries one of these
 // --------------------
-export type InitResponse = {
-  type: "init";
-  postId: string;
-  count: number;
-  username: string;
+type ErrorBase<C extends string> = {
+  status: "error";
+  code: C;
+  message: string; // ready to show to the player
 };
 
-export type IncrementResponse = {
-  type: "increment";
-  postId: string;
-  count: number;
-};
+export type ErrorResponse =
+  | (ErrorBase<"INVALID_MODE"> & { mode: string })
+  | (ErrorBase<"INVALID_REQUEST"> & { field?: string })
+  | (ErrorBase<"PUZZLE_UNAVAILABLE"> & { mode: GameMode; dateKey: string })
+  | (ErrorBase<"ALREADY_COMPLETED"> & { mode: GameMode; dateKey: string })
+  | (ErrorBase<"RATE_LIMITED"> & { retryAfterSeconds: number })
+  | ErrorBase<"LOGIN_REQUIRED">
+  | ErrorBase<"FORBIDDEN">
+  | ErrorBase<"CONFLICT">
+  | ErrorBase<"INTERNAL">;
 
-export type DecrementResponse = {
-  type: "decrement";
-  postId: string;
-  count: number;
-};
+export type ErrorCode = ErrorResponse["code"];
+
+export { ApiError } from "./validation";
 
 // --------------------
 // Game types
@@ -38,10 +49,64 @@ export type DailyPuzzle = {
 
   commentId: string;
   commentBody: string;
+
+  threadComments?: ThreadComment[]; // thread mode only; commentId/commentBody repeat the first one
+  media?: PuzzleMedia; // image mode only; commentId/commentBody are empty
+  choices?: string[]; // choice mode only: the answer plus decoys, in display order
+
+  version?: number; // bumped each time a moderator replaces the day's puzzle; absent on the original
+};
+
+export type PuzzleMedia = {
+  imageUrl: string; // full image, Reddit-hosted
+  thumbnailUrl?: string; // smaller preview used for the blurred first clue; absent on older cached puzzles
+};
+
+// One clue in a thread puzzle; each comes from a different post in the same subreddit.
+export type ThreadComment = {
+  id: string;
+  postId: string;
+  body: string;
+};
+
+// 1: comment, 2: + post body, 3: + title
+// thread mode: 1: three comments, 2: + more comments, 3: + title
+// image mode: 1: blurred thumbnail, 2: full image, 3: + title
+export type ClueStage = 1 | 2 | 3;
+
+// What the client sees of a puzzle: only the clues revealed so far, and the answer once finished.
+export type PuzzleView = {
+  dateKey: string;
+  mode: GameMode;
+  stage: ClueStage;
+
+  commentBody: string;
+  threadComments?: string[]; // thread mode: the comments revealed so far
+  media?: { url: string; blurred: boolean }; // image mode: blurred thumbnail, then the full image from stage 2
+  choices?: string[]; // choice mode: every stage, guesses must be one of these
+  postBody?: string; // stage >= 2
+  postTitle?: string; // stage >= 3
+  answer?: string; // once completed
+};
+
+export type AttemptRecord = {
+  guess: string; // normalized subreddit name, without r/
+  stage: ClueStage; // clue stage the guess was made on
+  verdict: GuessVerdict;
+};
+
+// Per-user per-day record of how a puzzle went; enough to rebuild the share grid after reload.
+export type DayHistory = {
+  attempts: AttemptRecord[];
+  outcome: "won" | "lost" | "gaveup" | null; // null while still playing
+  solvedStage?: ClueStage;
+  streak?: number; // streak right after finishing
+  sharedCommentId?: string; // set once the result was posted to the thread
 };
 
 export type GetStateResponse = {
-  puzzle: DailyPuzzle;
+  puzzle: PuzzleView;
+  archive: boolean; // replaying a past puzzle: no points, streak or leaderboard
 
   modeLocked: GameMode; // current effective mode for puzzle shown
   modeIsLocked: boolean; // whether user has "committed" today (after first reveal or first guess)
@@ -49,15 +114,49 @@ export type GetStateResponse = {
 
   totalScore: number;
   streak: number;
+  streakFreezes: number; // owned; one is spent automatically to cover a single missed day
+  streakFreezesUsed: number;
   lastPlayedDateKey?: string;
+
+  history: DayHistory; // attempts double as the list of previous guesses
+  guessesAllowed: number;
+  guessesUsed: number; // typos and unknown subs don't count
+};
+
+// one entry per mode, so the mode picker can mark finished modes without loading each puzzle
+export type ModeStatus = {
+  mode: GameMode;
+  committed: boolean;
+  completed: boolean;
+  outcome: DayHistory["outcome"]; // null while unfinished
+};
+
+export type GameInitResponse = {
+  username: string | null; // null when logged out
+  isModerator: boolean; // only decides whether to show the dashboard link
+  dateKey: string; // the post's own puzzle day, or the client's local day on unbound posts
+  modes: ModeStatus[]; // every mode, in picker order
+  settings: {
+    guessesPerPuzzle: number;
+    wrongGuessPenalty: number;
+  };
+  state: GetStateResponse; // the requested mode, so the first render needs no second call
+  states: Partial<Record<GameMode, GetStateResponse>>; // every mode that loaded, the requested one included
 };
 
+// exact: correct (incl. moderator aliases) · near: typo/plural of the answer that isn't a real sub;
+// the first two are free, later ones use up an attempt
+// related: a sibling sub moderators flagged · wrong: anything else
+// unknown: no such subreddit; rejected without locking the mode or using the attempt
+export type GuessVerdict = "exact" | "near" | "related" | "wrong" | "unknown";
+
 export type GuessResponse = {
   correct: boolean;
-  stageUsed: 1 | 2 | 3;
+  verdict: GuessVerdict;
+  stageUsed: ClueStage; // server-tracked stage the guess was graded on
   pointsAwarded: number;
 
-  answer: string;
+  answer?: string; // only once the puzzle is finished
   totalScore: number;
   streak: number;
 
@@ -66,9 +165,13 @@ export type GuessResponse = {
 
   // lets client show modal immediately without waiting for refetch
   completedToday: boolean;
+  history: DayHistory;
+  guessesLeft: number;
+  streakFreeze?: "used" | "earned"; // set when finishing this puzzle spent or earned a freeze
 };
 
-export type LockModeResponse = {
+export type RevealResponse = {
+  puzzle: PuzzleView; // with the newly revealed clue
   modeLocked: GameMode;
   modeIsLocked: boolean;
   completedToday: boolean;
@@ -79,51 +182,240 @@ export type GiveUpResponse = {
   modeIsLocked: boolean;
   completedToday: boolean;
   answer: string;
+  history: DayHistory;
+};
+
+export type ShareResponse = {
+  commentId: string;
+  commentUrl: string;
+};
+
+export type ArchiveEntry = {
+  dateKey: string;
+  outcome: DayHistory["outcome"]; // caller's archive result, null if not played
+};
+
+export type ArchiveResponse = {
+  mode: GameMode;
+  entries: ArchiveEntry[]; // newest first
+};
+
+// How a live daily puzzle ended, kept permanently for stats.
+export type DayResult = {
+  outcome: "won" | "lost" | "gaveup";
+  solvedStage?: ClueStage;
+  points: number;
+};
+
+export type StatsDistribution = {
+  1: number;
+  2: number;
+  3: number;
+  failed: number; // ran out of guesses
+  gaveup: number;
+};
+
+export type GetStatsResponse = {
+  mode: GameMode;
+  gamesPlayed: number;
+  wins: number;
+  winRate: number; // 0-100
+  currentStreak: number;
+  maxStreak: number;
+  distribution: StatsDistribution;
+  averagePoints: number; // per game played, losses count as 0
+  recent: { dateKey: string; result: DayResult | null }[]; // the 30 days ending on the requested day, oldest first
+};
+
+export type LeaderboardScope = "daily" | "alltime";
+
+export type LeaderboardEntry = {
+  rank: number; // 1-based
+  username: string;
+  points: number;
+
+  // daily scope only
+  stageUsed?: ClueStage;
+  solveSeconds?: number;
+};
+
+export type GetLeaderboardResponse = {
+  mode: GameMode;
+  dateKey: string;
+  scope: LeaderboardScope;
+  entries: LeaderboardEntry[];
+  me: LeaderboardEntry | null; // null when the caller has no score on this board
+  since?: string; // alltime only: first dateKey the board counted; earlier points aren't on it
+};
+
+export type SuggestResponse = {
+  query: string; // normalized query the suggestions are for
+  suggestions: string[]; // subreddit names without r/
 };
 
 // --------------------
 // Client fetch helpers
 // --------------------
-export async function apiGetState(mode: GameMode, dateKey: string): Promise<GetStateResponse> {
+// a non-2xx reply becomes an ApiError carrying the server's ErrorResponse, so callers can
+// branch on `code` and show `message` as-is
+async function readJson<T>(res: Response, path: string): Promise<T> {
+  if (res.ok) return res.json() as Promise<T>;
+  const body: unknown = await res.json().catch(() => null);
+  throw new ApiError(res.status, isErrorResponse(body) ? body : null, `Failed ${path}: ${res.status}`);
+}
+
+// the same checks the server runs, so a malformed request never leaves the client
+function checked<T>(result: Validation<T>): T {
+  if (!result.ok) throw new ApiError(400, result.error);
+  return result.value;
+}
+
+export async function apiGameInit(mode: GameMode, dateKey: string): Promise<GameInitResponse> {
+  checked(validatePlayRequest({ mode, dateKey }));
+  const res = await fetch(
+    `/api/game/init?mode=${encodeURIComponent(mode)}&dateKey=${encodeURIComponent(dateKey)}`
+  );
+  return readJson(res, "/api/game/init");
+}
+
+export async function apiGetState(
+  mode: GameMode,
+  dateKey: string,
+  archive = false
+): Promise<GetStateResponse> {
+  checked(validatePlayRequest({ mode, dateKey, archive }));
   const res = await fetch(
-    `/api/game/state?mode=${encodeURIComponent(mode)}&dateKey=${encodeURIComponent(dateKey)}`
+    `/api/game/state?mode=${encodeURIComponent(mode)}&dateKey=${encodeURIComponent(dateKey)}` +
+      (archive ? "&archive=1" : "")
   );
-  if (!res.ok) throw new Error(`Failed /api/game/state: ${res.status}`);
-  return res.json();
+  return readJson(res, "/api/game/state");
 }
 
 export async function apiGuess(
   subredditGuess: string,
-  stageUsed: 1 | 2 | 3,
   mode: GameMode,
-  dateKey: string
+  dateKey: string,
+  archive = false
 ): Promise<GuessResponse> {
+  const body = checked(validateGuessRequest({ subredditGuess, mode, dateKey, archive }));
   const res = await fetch("/api/game/guess", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ subredditGuess, stageUsed, mode, dateKey }),
+    body: JSON.stringify(body),
   });
-  if (!res.ok) throw new Error(`Failed /api/game/guess: ${res.status}`);
-  return res.json();
+  return readJson(res, "/api/game/guess");
 }
 
-// lock mode when user reveals the 2nd clue (first reveal)
-export async function apiLockMode(mode: GameMode, dateKey: string): Promise<LockModeResponse> {
-  const res = await fetch("/api/game/lock", {
+// reveals the next clue; the first reveal also locks the mode for the day
+export async function apiReveal(
+  mode: GameMode,
+  dateKey: string,
+  archive = false
+): Promise<RevealResponse> {
+  const body = checked(validatePlayRequest({ mode, dateKey, archive }));
+  const res = await fetch("/api/game/reveal", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ mode, dateKey }),
+    body: JSON.stringify(body),
   });
-  if (!res.ok) throw new Error(`Failed /api/game/lock: ${res.status}`);
-  return res.json();
+  return readJson(res, "/api/game/reveal");
 }
 
-export async function apiGiveUp(mode: GameMode, dateKey: string): Promise<GiveUpResponse> {
+export async function apiGiveUp(
+  mode: GameMode,
+  dateKey: string,
+  archive = false
+): Promise<GiveUpResponse> {
+  const body = checked(validatePlayRequest({ mode, dateKey, archive }));
   const res = await fetch("/api/game/giveup", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ mode, dateKey }),
+    body: JSON.stringify(body),
+  });
+  return readJson(res, "/api/game/giveup");
+}
+
+export async function apiGetLeaderboard(
+  mode: GameMode,
+  dateKey: string,
+  scope: LeaderboardScope
+): Promise<GetLeaderboardResponse> {
+  const res = await fetch(
+    `/api/game/leaderboard?mode=${encodeURIComponent(mode)}&dateKey=${encodeURIComponent(
+      dateKey
+    )}&scope=${encodeURIComponent(scope)}`
+  );
+  return readJson(res, "/api/game/leaderboard");
+}
+
+export async function apiSuggest(q: string): Promise<SuggestResponse> {
+  const res = await fetch(`/api/game/suggest?q=${encodeURIComponent(q)}`);
+  return readJson(res, "/api/game/suggest");
+}
+
+export async function apiShareResult(mode: GameMode, dateKey: string): Promise<ShareResponse> {
+  const body = checked(validatePlayRequest({ mode, dateKey }));
+  const res = await fetch("/api/game/share", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
   });
-  if (!res.ok) throw new Error(`Failed /api/game/giveup: ${res.status}`);
-  return res.json();
+  return readJson(res, "/api/game/share");
+}
+
+export async function apiGetArchive(mode: GameMode): Promise<ArchiveResponse> {
+  const res = await fetch(`/api/game/archive?mode=${encodeURIComponent(mode)}`);
+  return readJson(res, "/api/game/archive");
+}
+
+export async function apiGetStats(mode: GameMode, dateKey: string): Promise<GetStatsResponse> {
+  const res = await fetch(
+    `/api/game/stats?mode=${encodeURIComponent(mode)}&dateKey=${encodeURIComponent(dateKey)}`
+  );
+  return readJson(res, "/api/game/stats");
+}
+// --------------------
+// Moderator dashboard (/api/admin/*)
+// --------------------
+// one day of one mode, across every player
+export type AdminDayMetrics = {
+  dateKey: string;
+  players: number; // opened the live puzzle at least once
+  finished: number;
+  solvedByStage: { 1: number; 2: number; 3: number };
+  lost: number;
+  gaveup: number;
+  solveRate: number; // 0-100, solved / finished
+  stageSolveRates: { 1: number; 2: number; 3: number }; // 0-100, solved on that stage / finished
+  giveUpRate: number; // 0-100, gave up / finished
+  averageScore: number; // points per finished game
+};
+
+export type AdminMetricsResponse = {
+  mode: GameMode;
+  days: AdminDayMetrics[]; // newest first
+  total: Omit<AdminDayMetrics, "dateKey">;
+};
+
+export type AdminPuzzleEntry = {
+  dateKey: string;
+  subreddit: string;
+  postId: string;
+  postTitle: string;
+  version: number; // 0 unless a moderator replaced it
+};
+
+export type AdminPuzzlesResponse = {
+  mode: GameMode;
+  puzzles: AdminPuzzleEntry[]; // newest first; days without a puzzle are left out
+};
+
+export async function apiAdminMetrics(mode: GameMode): Promise<AdminMetricsResponse> {
+  const res = await fetch(`/api/admin/metrics?mode=${encodeURIComponent(mode)}`);
+  return readJson(res, "/api/admin/metrics");
+}
+
+export async function apiAdminPuzzles(mode: GameMode): Promise<AdminPuzzlesResponse> {
+  const res = await fetch(`/api/admin/puzzles?mode=${encodeURIComponent(mode)}`);
+  return readJson(res, "/api/admin/puzzles");
 }
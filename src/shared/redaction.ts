@@ -0,0 +1,16 @@
+// src/shared/redaction.ts
+
+// Stands in for every masked span of a clue; readable as-is, and split out by the client
+// so it can be drawn as a redaction bar.
+export const REDACTED = "⟦redacted⟧";
+
+export type ClueSegment = { text: string; redacted: boolean };
+
+export function splitRedacted(text: string): ClueSegment[] {
+  const segments: ClueSegment[] = [];
+  text.split(REDACTED).forEach((part, i) => {
+    if (i > 0) segments.push({ text: REDACTED, redacted: true });
+    if (part) segments.push({ text: part, redacted: false });
+  });
+  return segments;
+}
@@ -0,0 +1,33 @@
+// src/shared/share.ts
+import type { DayHistory, GameMode, GuessVerdict } from "./api";
+
+function verdictSquare(verdict: GuessVerdict): string {
+  if (verdict === "exact") return "🟩";
+  if (verdict === "near") return "🟨";
+  return "🟥";
+}
+
+/**
+ * Spoiler-free result block, e.g.
+ *
+ *   Name That Sub · 2026-10-19 · MEDIUM
+ *   Solved on clue 2/3
+ *   🟥🟨🟩
+ *   🔥 Streak 4
+ */
+export function formatShareText(dateKey: string, mode: GameMode, history: DayHistory): string {
+  const lines = [`Name That Sub · ${dateKey} · ${mode.toUpperCase()}`];
+
+  if (history.outcome === "won") lines.push(`Solved on clue ${history.solvedStage ?? 3}/3`);
+  else if (history.outcome === "gaveup") lines.push("Gave up");
+  else if (history.outcome === "lost") lines.push("Stumped — X/3");
+  else lines.push("In progress");
+
+  const squares = history.attempts.map((a) => verdictSquare(a.verdict)).join("");
+  const tail = history.outcome === "gaveup" ? "⬛" : "";
+  if (squares || tail) lines.push(squares + tail);
+
+  if (history.streak !== undefined) lines.push(`🔥 Streak ${history.streak}`);
+
+  return lines.join("\n");
+}
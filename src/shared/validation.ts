@@ -0,0 +1,107 @@
+// src/shared/validation.ts
+import { GAME_MODES, type ErrorCode, type ErrorResponse, type GameMode } from "./api";
+
+// Request shapes for /api/game/*, checked by the client before sending and by the
+// server on arrival, so both sides agree on what a well-formed request is.
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_GUESS_LENGTH = 64; // well past Reddit's 21-character subreddit names
+
+export type PlayRequest = {
+  mode: GameMode;
+  dateKey?: string; // YYYY-MM-DD; the server picks the day when left out
+  archive?: boolean;
+};
+
+export type GuessRequest = PlayRequest & {
+  subredditGuess: string;
+};
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; error: ErrorResponse };
+
+/**
+ * Thrown by the client fetch helpers for any non-2xx reply, and by server handlers to
+ * end a request early; `response` is null when the body wasn't an ErrorResponse.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly response: ErrorResponse | null;
+
+  constructor(status: number, response: ErrorResponse | null, fallbackMessage = `Request failed: ${status}`) {
+    super(response?.message ?? fallbackMessage);
+    this.name = "ApiError";
+    this.status = status;
+    this.response = response;
+  }
+
+  get code(): ErrorCode | null {
+    return this.response?.code ?? null;
+  }
+}
+
+export function isErrorResponse(raw: unknown): raw is ErrorResponse {
+  if (!raw || typeof raw !== "object") return false;
+  const r = raw as Record<string, unknown>;
+  return r.status === "error" && typeof r.code === "string" && typeof r.message === "string";
+}
+
+function invalid(message: string, field: string): ErrorResponse {
+  return { status: "error", code: "INVALID_REQUEST", message, field };
+}
+
+function asRecord(raw: unknown): Record<string, unknown> {
+  return raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+}
+
+export function validateMode(raw: unknown): Validation<GameMode> {
+  const mode = GAME_MODES.find((m) => m === raw);
+  if (mode) return { ok: true, value: mode };
+  return {
+    ok: false,
+    error: {
+      status: "error",
+      code: "INVALID_MODE",
+      message: `Unknown mode "${String(raw ?? "")}".`,
+      mode: String(raw ?? ""),
+    },
+  };
+}
+
+/** Accepts a JSON body or a parsed query string (where archive arrives as "1"/"true"). */
+export function validatePlayRequest(raw: unknown): Validation<PlayRequest> {
+  const r = asRecord(raw);
+
+  const mode = validateMode(r.mode);
+  if (!mode.ok) return mode;
+
+  let dateKey: string | undefined;
+  if (r.dateKey !== undefined && r.dateKey !== "") {
+    if (typeof r.dateKey !== "string" || !DATE_KEY.test(r.dateKey)) {
+      return { ok: false, error: invalid("dateKey must be YYYY-MM-DD.", "dateKey") };
+    }
+    dateKey = r.dateKey;
+  }
+
+  let archive = false;
+  if (r.archive === true || r.archive === "1" || r.archive === "true") archive = true;
+  else if (r.archive !== undefined && r.archive !== false && r.archive !== "0" && r.archive !== "false") {
+    return { ok: false, error: invalid("archive must be a boolean.", "archive") };
+  }
+
+  return { ok: true, value: { mode: mode.value, ...(dateKey ? { dateKey } : {}), archive } };
+}
+
+export function validateGuessRequest(raw: unknown): Validation<GuessRequest> {
+  const play = validatePlayRequest(raw);
+  if (!play.ok) return play;
+
+  const guess = asRecord(raw).subredditGuess;
+  if (typeof guess !== "string" || !guess.trim()) {
+    return { ok: false, error: invalid("Enter a subreddit to guess.", "subredditGuess") };
+  }
+  if (guess.length > MAX_GUESS_LENGTH) {
+    return { ok: false, error: invalid("That guess is too long.", "subredditGuess") };
+  }
+
+  return { ok: true, value: { ...play.value, subredditGuess: guess } };
+}
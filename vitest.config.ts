@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Separate from vite.config.ts: the devvit plugin only runs under `vite build`.
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});